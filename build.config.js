@@ -24,5 +24,6 @@ module.exports = {
   indexFileName: './src/index.ts',
   baseComponent: './core/component',
   configComponent: './core/configuration-component',
-  extensionComponent: './core/extension-component'
+  extensionComponent: './core/extension-component',
+  plugin: './core/plugin'
 };
\ No newline at end of file
@@ -71,6 +71,7 @@ gulp.task(GEN_RUN, (done) => {
     config.baseComponent,
     config.configComponent,
     config.extensionComponent,
+    config.plugin,
     {
       componentsDir: config.generatedComponentsDir,
       oldComponentsDir: config.oldComponentsDir,
@@ -3,9 +3,11 @@ import Configuration from "./configuration";
 import { IConfigurable, IConfigurationComponent } from "./configuration-component";
 
 function pullAllChildren(directChildren: VNode[], allChildren: VNode[], config: Configuration): void {
-    if (!directChildren || directChildren.length === 0) { return; }
-
-    pullConfigComponents(directChildren, allChildren, config);
+    config.beginNestedUpdate();
+    if (directChildren && directChildren.length > 0) {
+        pullConfigComponents(directChildren, allChildren, config);
+    }
+    config.endNestedUpdate();
 }
 
 function pullConfigComponents(children: VNode[], nodes: VNode[], ownerConfig: Configuration): void {
@@ -26,14 +28,17 @@ function pullConfigComponents(children: VNode[], nodes: VNode[], ownerConfig: Co
             configComponent.$_optionName,
             initialValues,
             configComponent.$_isCollectionItem,
-            configComponent.$_expectedChildren
+            configComponent.$_expectedChildren,
+            node.key
         );
 
         (node.componentOptions as any as IConfigurable).$_config = config;
 
+        config.beginNestedUpdate();
         if (node.componentOptions.children) {
             pullConfigComponents(node.componentOptions.children as VNode[], nodes, config);
         }
+        config.endNestedUpdate();
     });
 }
 
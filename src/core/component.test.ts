@@ -1,9 +1,12 @@
 import Vue, { VueConstructor } from "vue";
 import { DxComponent, IWidgetComponent } from "../core/component";
+import globalConfig from "../core/config";
 import { DxConfiguration, IConfigurable, IConfigurationComponent } from "../core/configuration-component";
+import { setGlobalDefaults } from "../core/defaults";
 import { DxExtensionComponent } from "../core/extension-component";
 
 import * as events from "devextreme/events";
+import { createRenderer } from "vue-server-renderer";
 
 const eventHandlers: { [index: string]: (e?: any) => void } = {};
 const Widget = {
@@ -12,6 +15,11 @@ const Widget = {
     on: (event: string, handler: (e: any) => void) => {
         eventHandlers[event] = handler;
     },
+    off: jest.fn((event: string, handler: (e: any) => void) => {
+        if (eventHandlers[event] === handler) {
+            delete eventHandlers[event];
+        }
+    }),
     fire: (event: string, args: any) => {
         if (!eventHandlers[event]) {
             throw new Error(`no handler registered for '${event}'`);
@@ -20,6 +28,9 @@ const Widget = {
     },
     beginUpdate: jest.fn(),
     endUpdate: jest.fn(),
+    hide: jest.fn(),
+    show: jest.fn(),
+    updateDimensions: jest.fn(),
 };
 
 function createWidget(_, options) {
@@ -92,6 +103,185 @@ describe("component rendering", () => {
         expect(vm.$el.id).toBe("my-id");
     });
 
+    it("passes attributes to element", () => {
+        const vm = new Vue({
+            template: `<test-component
+                            data-testid="grid"
+                            aria-label="label"
+                            title="title"
+                            defer-creation="false"
+                            recycle-templates
+                        />`,
+            components: {
+                TestComponent
+            }
+        }).$mount();
+
+        expect(vm.$el.getAttribute("data-testid")).toBe("grid");
+        expect(vm.$el.getAttribute("aria-label")).toBe("label");
+        expect(vm.$el.getAttribute("title")).toBe("title");
+        expect(vm.$el.hasAttribute("defer-creation")).toBe(false);
+        expect(vm.$el.hasAttribute("recycle-templates")).toBe(false);
+    });
+
+    it("updates attributes of element", (done) => {
+        const vm = new Vue({
+            template: "<test-component :title='title' :data-value='value'/>",
+            components: {
+                TestComponent
+            },
+            data: {
+                title: "title",
+                value: "value"
+            }
+        }).$mount();
+
+        vm.$data.title = "new title";
+        vm.$data.value = undefined;
+        Vue.nextTick(() => {
+            expect(vm.$el.getAttribute("title")).toBe("new title");
+            expect(vm.$el.hasAttribute("data-value")).toBe(false);
+            done();
+        });
+    });
+
+    it("passes class and style to element", () => {
+        const vm = new Vue({
+            template: "<test-component class='static' :class='{ dynamic: true }' style='color: red'/>",
+            components: {
+                TestComponent
+            }
+        }).$mount();
+
+        expect(vm.$el.className).toBe("static dynamic");
+        expect((vm.$el as HTMLElement).style.color).toBe("red");
+    });
+
+    describe("foreign classes", () => {
+
+        interface IFakeMutationObserver {
+            observe(element: Element): void;
+            disconnect(): void;
+            check(): void;
+        }
+
+        let observers: IFakeMutationObserver[] = [];
+
+        // jsdom has no MutationObserver, so class attribute changes are reported by 'recordMutations'
+        function FakeMutationObserver(callback: (records: Array<Partial<MutationRecord>>) => void) {
+            let observedElement: Element;
+            let value: string | null = null;
+            const observer: IFakeMutationObserver = {
+                observe(element: Element): void {
+                    observedElement = element;
+                    value = element.getAttribute("class");
+                    observers.push(observer);
+                },
+                disconnect(): void {
+                    observers.splice(observers.indexOf(observer), 1);
+                },
+                check(): void {
+                    const oldValue = value;
+                    if (observedElement.getAttribute("class") === oldValue) {
+                        return;
+                    }
+
+                    callback([{ oldValue }]);
+                    value = observedElement.getAttribute("class");
+                }
+            };
+
+            return observer;
+        }
+
+        function recordMutations() {
+            observers.forEach((observer) => observer.check());
+        }
+
+        beforeEach(() => {
+            (window as any).MutationObserver = FakeMutationObserver;
+        });
+
+        afterEach(() => {
+            delete (window as any).MutationObserver;
+            observers = [];
+        });
+
+        it("keeps widget classes on class update", (done) => {
+            const vm = new Vue({
+                template: "<test-component :class='classes'/>",
+                components: {
+                    TestComponent
+                },
+                data: {
+                    classes: "old"
+                }
+            }).$mount();
+            vm.$el.classList.add("dx-widget", "dx-state-focused");
+            vm.$el.classList.remove("dx-state-focused");
+            recordMutations();
+
+            vm.$data.classes = "new";
+            Vue.nextTick(() => {
+                recordMutations();
+                expect(vm.$el.className).toBe("new dx-widget");
+                done();
+            });
+        });
+
+        it("keeps widget classes on several class updates", (done) => {
+            const vm = new Vue({
+                template: "<test-component class='static' :class='classes'/>",
+                components: {
+                    TestComponent
+                },
+                data: {
+                    classes: ["first"]
+                }
+            }).$mount();
+            vm.$el.classList.add("dx-widget");
+            recordMutations();
+
+            vm.$data.classes = ["second", { third: true, fourth: false }];
+            Vue.nextTick(() => {
+                recordMutations();
+                vm.$el.classList.add("dx-state-hover");
+                recordMutations();
+                vm.$data.classes = [];
+                Vue.nextTick(() => {
+                    recordMutations();
+                    expect(vm.$el.className).toBe("static dx-widget dx-state-hover");
+                    done();
+                });
+            });
+        });
+
+        it("doesn't restore classes the widget removes", () => {
+            const vm = new Vue({
+                template: "<test-component class='static'/>",
+                components: {
+                    TestComponent
+                }
+            }).$mount();
+            vm.$el.classList.add("dx-widget");
+            recordMutations();
+
+            vm.$el.classList.remove("dx-widget");
+            recordMutations();
+
+            expect(vm.$el.className).toBe("static");
+        });
+
+        it("stops observing the element when the component is destroyed", () => {
+            const vm = new TestComponent().$mount();
+            expect(observers).toHaveLength(1);
+
+            vm.$destroy();
+
+            expect(observers).toHaveLength(0);
+        });
+    });
+
     it("creates nested component", () => {
         new Vue({
             template: "<test-component><test-component/></test-component>",
@@ -145,6 +335,28 @@ describe("options", () => {
         });
     });
 
+    it("passes every change of a prop within a task", () => {
+        const vm = new TestComponent({
+            props: ["sampleProp"],
+            propsData: {
+                sampleProp: 0
+            }
+        }).$mount();
+
+        let result = Promise.resolve();
+        for (let i = 1; i <= 15; i++) {
+            result = result.then(() => {
+                vm.$props.sampleProp = i;
+                return Vue.nextTick();
+            });
+        }
+
+        return result.then(() => {
+            expect(Widget.option).toHaveBeenCalledTimes(15);
+            expect(Widget.option).toHaveBeenLastCalledWith("sampleProp", 15);
+        });
+    });
+
     it("watch array prop changing", (done) => {
         const arrayValue = [{ text: "text" }];
         new TestComponent({
@@ -282,7 +494,10 @@ describe("configuration", () => {
         const vm = new TestComponent();
         (vm as IConfigurable).$_config = {
             getInitialValues: jest.fn(() => initialValues),
-            getOptionsToWatch: jest.fn()
+            getOptionsToWatch: jest.fn(),
+            beginNestedUpdate: jest.fn(),
+            endNestedUpdate: jest.fn(),
+            resumeUpdates: jest.fn()
         } as any;
 
         vm.$mount();
@@ -802,7 +1017,7 @@ describe("nested option", () => {
         });
     });
 
-    it.skip("is not duplicated on rerender", (cb) => {
+    it("is not duplicated on rerender", (cb) => {
         const vm = new Vue({
             template:
                 `<test-component>` +
@@ -827,6 +1042,96 @@ describe("nested option", () => {
         });
     });
 
+    describe("collection items rendered in a loop", () => {
+
+        const NestedItem = buildTestConfigCtor();
+        (NestedItem as any as IConfigurationComponent).$_optionName = "nestedOption";
+        (NestedItem as any as IConfigurationComponent).$_isCollectionItem = true;
+
+        function mount(items: any[]) {
+            return new Vue({
+                template:
+                    `<test-component>` +
+                    `  <nested-item v-for="item in items" :key="item.id" :prop1="item.value" />` +
+                    `</test-component>`,
+                components: {
+                    TestComponent,
+                    NestedItem
+                },
+                data: {
+                    items
+                }
+            }).$mount();
+        }
+
+        it("updates the changed items on insertion", (done) => {
+            const vm = mount([{ id: 1, value: 1 }, { id: 2, value: 2 }]);
+
+            vm.$data.items.splice(0, 1, { id: 3, value: 3 }, { id: 4, value: 4 });
+            Vue.nextTick(() => {
+                expect(Widget.option.mock.calls).toEqual([
+                    ["nestedOption[0]", { prop1: 3 }],
+                    ["nestedOption[1]", { prop1: 4 }],
+                    ["nestedOption[2]", { prop1: 2 }]
+                ]);
+                done();
+            });
+        });
+
+        it("updates the whole collection on removal", (done) => {
+            const vm = mount([{ id: 1, value: 1 }, { id: 2, value: 2 }]);
+
+            vm.$data.items.splice(0, 1);
+            Vue.nextTick(() => {
+                expect(Widget.option).toHaveBeenCalledTimes(1);
+                expect(Widget.option).toHaveBeenCalledWith("nestedOption", [{ prop1: 2 }]);
+                done();
+            });
+        });
+
+        it("updates the moved item by its new index", (done) => {
+            const vm = mount([{ id: 1, value: 1 }, { id: 2, value: 2 }]);
+
+            vm.$data.items.reverse();
+            Vue.nextTick(() => {
+                expect(Widget.option.mock.calls).toEqual([
+                    ["nestedOption[0]", { prop1: 2 }],
+                    ["nestedOption[1]", { prop1: 1 }]
+                ]);
+
+                vm.$data.items[1].value = 10;
+                Vue.nextTick(() => {
+                    expect(Widget.option).toHaveBeenCalledTimes(3);
+                    expect(Widget.option).toHaveBeenLastCalledWith("nestedOption[1].prop1", 10);
+                    done();
+                });
+            });
+        });
+
+        it("passes changes of a moved item within the collection", (done) => {
+            const vm = mount([{ id: 1, value: 1 }, { id: 2, value: 2 }]);
+
+            vm.$data.items = [{ id: 2, value: 20 }, { id: 1, value: 1 }];
+            Vue.nextTick(() => {
+                expect(Widget.option.mock.calls).toEqual([
+                    ["nestedOption[0]", { prop1: 20 }],
+                    ["nestedOption[1]", { prop1: 1 }]
+                ]);
+                done();
+            });
+        });
+
+        it("doesn't update the collection if items are not changed", (done) => {
+            const vm = mount([{ id: 1, value: 1 }]);
+
+            vm.$forceUpdate();
+            Vue.nextTick(() => {
+                expect(Widget.option).not.toHaveBeenCalled();
+                done();
+            });
+        });
+    });
+
 });
 
 function renderTemplate(name: string, model?: object, container?: any): Element {
@@ -839,6 +1144,87 @@ function renderTemplate(name: string, model?: object, container?: any): Element
     });
 }
 
+describe("unset options", () => {
+
+    const Nested = buildTestConfigCtor();
+    (Nested as any as IConfigurationComponent).$_optionName = "nestedOption";
+
+    function mount() {
+        return new Vue({
+            template:
+                `<test-component :sample-prop="value">` +
+                `  <nested v-if="hasNested" :prop1="nestedValue" />` +
+                `</test-component>`,
+            components: {
+                TestComponent: TestComponent.extend({ props: ["sampleProp"] }),
+                Nested
+            },
+            data: {
+                value: "value",
+                hasNested: true,
+                nestedValue: 1
+            }
+        }).$mount();
+    }
+
+    afterEach(() => {
+        delete (Widget as any).resetOption;
+        delete (Widget as any).initialOption;
+    });
+
+    it("are reset by the widget", (done) => {
+        const resetOption = (Widget as any).resetOption = jest.fn();
+        const vm = mount();
+
+        vm.$data.value = undefined;
+        vm.$data.nestedValue = undefined;
+        Vue.nextTick(() => {
+            expect(resetOption).toHaveBeenCalledTimes(2);
+            expect(resetOption).toHaveBeenCalledWith("sampleProp");
+            expect(resetOption).toHaveBeenCalledWith("nestedOption.prop1");
+            expect(Widget.option).not.toHaveBeenCalled();
+            done();
+        });
+    });
+
+    it("get the widget's default values", (done) => {
+        const defaults = { sampleProp: "default", nestedOption: { prop1: 10 } };
+        (Widget as any).initialOption = jest.fn((name: string) => defaults[name]);
+        const vm = mount();
+
+        vm.$data.value = undefined;
+        vm.$data.nestedValue = undefined;
+        Vue.nextTick(() => {
+            expect(Widget.option).toHaveBeenCalledTimes(2);
+            expect(Widget.option).toHaveBeenCalledWith("sampleProp", "default");
+            expect(Widget.option).toHaveBeenCalledWith("nestedOption.prop1", 10);
+            done();
+        });
+    });
+
+    it("include a removed nested option", (done) => {
+        const resetOption = (Widget as any).resetOption = jest.fn();
+        const vm = mount();
+
+        vm.$data.hasNested = false;
+        Vue.nextTick(() => {
+            expect(resetOption).toHaveBeenCalledTimes(1);
+            expect(resetOption).toHaveBeenCalledWith("nestedOption");
+            expect(Widget.option).not.toHaveBeenCalled();
+            done();
+        });
+    });
+
+    it("are not passed to a widget created later", () => {
+        const vm = mount();
+        const config = (vm.$children[0] as any as IConfigurable).$_config;
+
+        config.updateValue("sampleProp", undefined);
+
+        expect(config.getInitialValues()).toEqual({ nestedOption: { prop1: 1 } });
+    });
+});
+
 describe("template", () => {
 
     const DX_TEMPLATE_WRAPPER = "dx-template-wrapper";
@@ -916,12 +1302,12 @@ describe("template", () => {
         expect(component.$children.length).toBe(1);
     });
 
-    it("updates templates on component updating (check via functional component inside)", () => {
-        expect.assertions(2);
+    it("updates templates on component updating (check via functional component inside)", (done) => {
+        const renderCounter = jest.fn();
         const FunctionalComponent = Vue.extend({
             functional: true,
             render(h) {
-                expect(true).toBeTruthy();
+                renderCounter();
                 return h("div");
             }
         });
@@ -938,6 +1324,48 @@ describe("template", () => {
 
         const component: any = vm.$refs.component;
         component.$forceUpdate();
+
+        Vue.nextTick(() => {
+            expect(renderCounter).toHaveBeenCalledTimes(2);
+            done();
+        });
+    });
+
+    it("re-renders template when data it reads changes", (done) => {
+        const renderCounter = jest.fn();
+        const FunctionalComponent = Vue.extend({
+            functional: true,
+            render(h) {
+                renderCounter();
+                return h("div");
+            }
+        });
+        const vm = new Vue({
+            template: `<test-component :unrelated="unrelated">
+                            <div slot='item' slot-scope='props'>{{text}}<functional-component/></div>
+                        </test-component>`,
+            components: {
+                TestComponent,
+                FunctionalComponent
+            },
+            data: {
+                text: "text",
+                unrelated: 1
+            }
+        }).$mount();
+        const renderedTemplate = renderItemTemplate({});
+
+        vm.unrelated = 2;
+        Vue.nextTick(() => {
+            expect(renderCounter).toHaveBeenCalledTimes(1);
+
+            vm.text = "changed";
+            Vue.nextTick(() => {
+                expect(renderCounter).toHaveBeenCalledTimes(2);
+                expect(renderedTemplate.textContent).toBe("changed");
+                done();
+            });
+        });
     });
 
     it("unwraps container", () => {
@@ -1003,6 +1431,126 @@ describe("template", () => {
     });
 });
 
+describe("template recycling", () => {
+
+    function mountRecycling() {
+        return new Vue({
+            template: `<test-component recycle-templates>
+                            <div slot='item' slot-scope='props'>Template {{props.text}}</div>
+                        </test-component>`,
+            components: {
+                TestComponent
+            }
+        }).$mount();
+    }
+
+    afterEach(() => {
+        globalConfig({ recycleTemplates: false });
+    });
+
+    it("reuses removed template instance", () => {
+        const vm = mountRecycling();
+        const firstElement = renderTemplate("item", { text: "first" });
+        events.triggerHandler(firstElement, "dxremove");
+
+        const secondElement = renderTemplate("item", { text: "second" });
+
+        expect(secondElement).toBe(firstElement);
+        expect(vm.$children[0].$children.length).toBe(1);
+        expect(secondElement.textContent).toBe("Template second");
+        expect(secondElement.className).toBe("dx-template-wrapper");
+    });
+
+    it("keeps the content of reused template instance on the next tick", (done) => {
+        mountRecycling();
+        const firstElement = renderTemplate("item", { text: "first" });
+        events.triggerHandler(firstElement, "dxremove");
+        const secondElement = renderTemplate("item", { text: "second" });
+
+        Vue.nextTick(() => {
+            expect(secondElement.textContent).toBe("Template second");
+            done();
+        });
+    });
+
+    it("doesn't reuse template instance in use", () => {
+        mountRecycling();
+        const firstElement = renderTemplate("item", { text: "first" });
+        const secondElement = renderTemplate("item", { text: "second" });
+
+        expect(secondElement).not.toBe(firstElement);
+        expect(firstElement.innerHTML).toBe("Template first");
+    });
+
+    it("prefers instance rendered for the same key", () => {
+        mountRecycling();
+        const firstElement = renderTemplate("item", { key: 1, text: "first" });
+        const secondElement = renderTemplate("item", { key: 2, text: "second" });
+        events.triggerHandler(firstElement, "dxremove");
+        events.triggerHandler(secondElement, "dxremove");
+
+        expect(renderTemplate("item", { key: 1, text: "first" })).toBe(firstElement);
+    });
+
+    it("is enabled globally", () => {
+        globalConfig({ recycleTemplates: true });
+        new Vue({
+            template: `<test-component>
+                            <div slot='item' slot-scope='props'>Template</div>
+                        </test-component>`,
+            components: {
+                TestComponent
+            }
+        }).$mount();
+        const firstElement = renderTemplate("item");
+        events.triggerHandler(firstElement, "dxremove");
+
+        expect(renderTemplate("item")).toBe(firstElement);
+    });
+
+    it("doesn't reuse template instance by default", () => {
+        new Vue({
+            template: `<test-component>
+                            <div slot='item' slot-scope='props'>Template</div>
+                        </test-component>`,
+            components: {
+                TestComponent
+            }
+        }).$mount();
+        const firstElement = renderTemplate("item");
+        events.triggerHandler(firstElement, "dxremove");
+
+        expect(renderTemplate("item")).not.toBe(firstElement);
+    });
+
+    it("destroys pooled instances when the widget creation fails", () => {
+        const vm = mountRecycling();
+        const element = renderTemplate("item");
+        events.triggerHandler(element, "dxremove");
+        const templateInstance = vm.$children[0].$children[0];
+        const destroySpy = jest.spyOn(templateInstance, "$destroy");
+        const component: any = vm.$children[0];
+
+        Vue.config.errorHandler = jest.fn();
+        component.$_failCreation(new Error("failed"));
+        Vue.config.errorHandler = undefined as any;
+
+        expect(destroySpy).toHaveBeenCalledTimes(1);
+    });
+
+    it("destroys pooled instances with component", () => {
+        const vm = mountRecycling();
+        const element = renderTemplate("item");
+        events.triggerHandler(element, "dxremove");
+        const templateInstance = vm.$children[0].$children[0];
+        const destroySpy = jest.spyOn(templateInstance, "$destroy");
+
+        vm.$destroy();
+
+        expect(destroySpy).toHaveBeenCalledTimes(1);
+    });
+});
+
 describe("static items", () => {
     it("passes integrationOptions to widget", () => {
         const NestedItem = Vue.extend({
@@ -1091,6 +1639,212 @@ describe("static items", () => {
     });
 });
 
+describe("template options", () => {
+
+    function buildColumnCtor(templates?: string[]): VueConstructor {
+        const Column = Vue.extend({
+            extends: DxConfiguration,
+            props: {
+                caption: String,
+                cellTemplate: String
+            }
+        });
+        (Column as any as IConfigurationComponent).$_optionName = "columns";
+        (Column as any as IConfigurationComponent).$_isCollectionItem = true;
+        (Column as any as IConfigurationComponent).$_templates = templates;
+
+        return Column;
+    }
+
+    function mountWithColumn(Column: VueConstructor, slots: string) {
+        return new Vue({
+            template: `<test-component>
+                         <column>${slots}</column>
+                       </test-component>`,
+            components: {
+                TestComponent,
+                Column
+            }
+        }).$mount();
+    }
+
+    it("registers named slots of nested component", () => {
+        mountWithColumn(
+            buildColumnCtor(["cellTemplate", "headerCellTemplate"]),
+            `<div slot="cell" slot-scope="props">cell {{props.text}}</div>
+             <div slot="header-cell" slot-scope="_">header</div>`
+        );
+        const options = WidgetClass.mock.calls[0][1];
+
+        expect(options.columns[0].cellTemplate).toBe("columns[0].cellTemplate");
+        expect(options.columns[0].headerCellTemplate).toBe("columns[0].headerCellTemplate");
+        expect(renderTemplate("columns[0].cellTemplate", { text: "text" }).innerHTML).toBe("cell text");
+        expect(renderTemplate("columns[0].headerCellTemplate").innerHTML).toBe("header");
+    });
+
+    it("skips slots that are not template options", () => {
+        mountWithColumn(
+            buildColumnCtor(["cellTemplate"]),
+            `<div slot="cell" slot-scope="_">cell</div>
+             <div slot="footer" slot-scope="_">footer</div>
+             <div slot-scope="_">default</div>`
+        );
+        const templates = WidgetClass.mock.calls[0][1].integrationOptions.templates;
+
+        expect(Object.keys(templates)).toEqual(["columns[0].cellTemplate"]);
+    });
+
+    it("uses declared props without templates list", () => {
+        mountWithColumn(
+            buildColumnCtor(),
+            `<div slot="cell" slot-scope="_">cell</div>
+             <div slot="caption" slot-scope="_">caption</div>`
+        );
+        const templates = WidgetClass.mock.calls[0][1].integrationOptions.templates;
+
+        expect(Object.keys(templates)).toEqual(["columns[0].cellTemplate"]);
+    });
+
+    it("registers slots of sub-nested component", () => {
+        const Column = buildColumnCtor(["cellTemplate"]);
+        (Column as any as IConfigurationComponent).$_expectedChildren = {
+            column: { isCollectionItem: true, optionName: "columns" }
+        };
+
+        new Vue({
+            template: `<test-component>
+                         <column>
+                           <column>
+                             <div slot="cell" slot-scope="_">cell</div>
+                           </column>
+                         </column>
+                       </test-component>`,
+            components: {
+                TestComponent,
+                Column
+            }
+        }).$mount();
+        const templates = WidgetClass.mock.calls[0][1].integrationOptions.templates;
+
+        expect(Object.keys(templates)).toEqual(["columns[0].columns[0].cellTemplate"]);
+    });
+
+    it("keeps templates of reordered items and registers templates of inserted ones", (done) => {
+        const widgetTemplates = {};
+        Widget.option.mockImplementation(
+            (name: string) => name === "integrationOptions.templates" ? widgetTemplates : undefined
+        );
+        const vm = new Vue({
+            template: `<test-component>
+                         <column v-for="column in columns" :key="column" :caption="column">
+                           <div slot="cell" slot-scope="_">{{column}} cell</div>
+                         </column>
+                       </test-component>`,
+            components: {
+                TestComponent,
+                Column: buildColumnCtor(["cellTemplate"])
+            },
+            data: {
+                columns: ["a", "b"]
+            }
+        }).$mount();
+        Object.assign(widgetTemplates, WidgetClass.mock.calls[0][1].integrationOptions.templates);
+        Widget.option.mockClear();
+
+        vm.$data.columns = ["b", "a", "c"];
+        Vue.nextTick(() => {
+            const updates = Widget.option.mock.calls.filter(([name]) => name !== "integrationOptions.templates");
+            expect(updates).toEqual([
+                ["columns[0]", { caption: "b", cellTemplate: "columns[1].cellTemplate" }],
+                ["columns[1]", { caption: "a", cellTemplate: "columns[0].cellTemplate" }],
+                ["columns[2]", { caption: "c", cellTemplate: "columns[2].cellTemplate" }]
+            ]);
+
+            const container = document.createElement("div");
+            widgetTemplates["columns[2].cellTemplate"].render({ container, model: {} });
+            expect(container.textContent).toBe("c cell");
+
+            Widget.option.mockReset();
+            done();
+        });
+    });
+
+    it("binds widget slots to template options", () => {
+        const WidgetComponent = Vue.extend({
+            extends: TestComponent,
+            props: {
+                rowTemplate: String
+            },
+            beforeCreate() {
+                (this as any).$_templates = ["rowTemplate", "itemTemplate"];
+            }
+        });
+
+        new Vue({
+            template: `<widget-component>
+                         <div slot="row" slot-scope="_">row</div>
+                         <div slot="content" slot-scope="_">content</div>
+                       </widget-component>`,
+            components: {
+                WidgetComponent
+            }
+        }).$mount();
+        const options = WidgetClass.mock.calls[0][1];
+
+        expect(options.rowTemplate).toBe("row");
+        expect(options.itemTemplate).toBeUndefined();
+        expect(options.contentTemplate).toBeUndefined();
+    });
+
+    it("doesn't override template option set via prop", () => {
+        const WidgetComponent = Vue.extend({
+            extends: TestComponent,
+            props: {
+                rowTemplate: String
+            },
+            beforeCreate() {
+                (this as any).$_templates = ["rowTemplate"];
+            }
+        });
+
+        new Vue({
+            template: `<widget-component row-template="custom">
+                         <div slot="row" slot-scope="_">row</div>
+                         <div slot="custom" slot-scope="_">custom</div>
+                       </widget-component>`,
+            components: {
+                WidgetComponent
+            }
+        }).$mount();
+
+        expect(WidgetClass.mock.calls[0][1].rowTemplate).toBe("custom");
+    });
+
+    it("doesn't override template option set via defaults", () => {
+        setGlobalDefaults({ DxWidget: { rowTemplate: "custom" } });
+        const WidgetComponent = Vue.extend({
+            extends: TestComponent,
+            name: "DxWidget",
+            beforeCreate() {
+                (this as any).$_templates = ["rowTemplate"];
+            }
+        });
+
+        new Vue({
+            template: `<widget-component>
+                         <div slot="row" slot-scope="_">row</div>
+                         <div slot="custom" slot-scope="_">custom</div>
+                       </widget-component>`,
+            components: {
+                WidgetComponent
+            }
+        }).$mount();
+        setGlobalDefaults({});
+
+        expect(WidgetClass.mock.calls[0][1].rowTemplate).toBe("custom");
+    });
+});
+
 describe("events emitting", () => {
 
     it("forwards DevExtreme events in camelCase", () => {
@@ -1108,6 +1862,41 @@ describe("events emitting", () => {
         expect($emitSpy.mock.calls[0][1]).toBe(expectedArgs);
     });
 
+    it("doesn't emit update event for the option value passed to the widget", (done) => {
+        const onUpdate = jest.fn();
+        const vm = new Vue({
+            template: "<test-component :sample-prop='value' @update:sampleProp='onUpdate'/>",
+            components: {
+                TestComponent: TestComponent.extend({ props: ["sampleProp"] })
+            },
+            data: {
+                value: "default"
+            },
+            methods: {
+                onUpdate
+            }
+        }).$mount();
+        Widget.option.mockImplementationOnce((name: string, value: any) => {
+            Widget.fire("optionChanged", { name, fullName: name, value, previousValue: "default", component: Widget });
+        });
+
+        vm.value = "new";
+        Vue.nextTick(() => {
+            expect(Widget.option).toHaveBeenCalledWith("sampleProp", "new");
+            expect(onUpdate).not.toHaveBeenCalled();
+
+            Widget.fire("optionChanged", {
+                name: "sampleProp",
+                fullName: "sampleProp",
+                value: "changed",
+                previousValue: "new",
+                component: Widget
+            });
+            expect(onUpdate).toHaveBeenCalledWith("changed");
+            done();
+        });
+    });
+
     it("forwards DevExtreme events in kebab-case", () => {
         const expectedArgs = {};
         const parent = new Vue({
@@ -1122,6 +1911,128 @@ describe("events emitting", () => {
         expect($emitSpy.mock.calls[0][0]).toBe("test-event-name");
         expect($emitSpy.mock.calls[0][1]).toBe(expectedArgs);
     });
+
+    it("subscribes to listeners added after widget creation", (done) => {
+        const handler = jest.fn();
+        const parent = new Vue({
+            template: "<TestComponent v-on='handlers'></TestComponent>",
+            components: { TestComponent },
+            data: {
+                handlers: {}
+            }
+        }).$mount();
+
+        parent.handlers = { "added-event": handler };
+
+        Vue.nextTick(() => {
+            Widget.fire("addedEvent", {});
+
+            expect(handler).toHaveBeenCalledTimes(1);
+            done();
+        });
+    });
+
+    it("unsubscribes from removed listeners", (done) => {
+        const parent = new Vue({
+            template: "<TestComponent v-on='handlers'></TestComponent>",
+            components: { TestComponent },
+            data: {
+                handlers: { removedEvent: jest.fn() } as Record<string, any>
+            }
+        }).$mount();
+        const handler = eventHandlers.removedEvent;
+
+        parent.handlers = {};
+
+        Vue.nextTick(() => {
+            expect(Widget.off).toHaveBeenCalledTimes(1);
+            expect(Widget.off).toHaveBeenCalledWith("removedEvent", handler);
+            done();
+        });
+    });
+
+    it("doesn't resubscribe to existing listeners", (done) => {
+        const parent = new Vue({
+            template: "<TestComponent @test-event='handler' :sample-prop='value'></TestComponent>",
+            components: { TestComponent },
+            data: {
+                value: 1
+            },
+            methods: {
+                handler: jest.fn()
+            }
+        }).$mount();
+        const onSpy = jest.spyOn(Widget, "on");
+
+        parent.value = 2;
+
+        Vue.nextTick(() => {
+            expect(onSpy).not.toHaveBeenCalled();
+            expect(Widget.off).not.toHaveBeenCalled();
+            onSpy.mockRestore();
+            done();
+        });
+    });
+});
+
+describe("ready state", () => {
+
+    it("emits initialized after endUpdate", () => {
+        const handler = jest.fn(() => {
+            expect(Widget.endUpdate).toHaveBeenCalledTimes(1);
+        });
+        const vm = new Vue({
+            template: "<test-component @initialized='handler'></test-component>",
+            components: { TestComponent },
+            methods: { handler }
+        }).$mount();
+
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(handler.mock.calls[0][0]).toEqual({
+            component: Widget,
+            element: vm.$el
+        });
+    });
+
+    it("resolves whenReady with widget", () => {
+        const component: any = new TestComponent();
+        const promise = component.whenReady();
+
+        component.$mount();
+
+        return expect(promise).resolves.toBe(Widget);
+    });
+
+    it("resolves whenReady requested after widget creation", () => {
+        const component: any = new TestComponent().$mount();
+
+        return expect(component.whenReady()).resolves.toBe(Widget);
+    });
+
+    it("updates watchers of the instance when the widget is created", (done) => {
+        const component: any = new TestComponent();
+        const handler = jest.fn();
+        component.$watch(() => component.$_instance, handler);
+
+        component.$mount();
+
+        Vue.nextTick(() => {
+            expect(handler).toHaveBeenCalledTimes(1);
+            expect(handler.mock.calls[0][0]).toBe(Widget);
+            done();
+        });
+    });
+
+    it("doesn't resolve whenReady before widget creation", () => {
+        const component: any = new TestComponent();
+        const handler = jest.fn();
+
+        component.whenReady().then(handler);
+
+        return Promise.resolve().then(() => {
+            expect(handler).not.toHaveBeenCalled();
+        });
+    });
 });
 
 describe("extension component", () => {
@@ -1176,6 +2087,23 @@ describe("extension component", () => {
         expect(actualElement).toBe(expectedElement);
     });
 
+    it("resolves whenReady after attaching to parent element", () => {
+        const vm = new Vue({
+            template: `<test-component>
+                            <test-extension-component/>
+                        </test-component>`,
+            components: {
+                TestComponent,
+                TestExtensionComponent
+            }
+        }).$mount();
+
+        const extension: any = (vm.$children[0] as any).$children[0];
+        expect(ExtensionWidgetClass).toHaveBeenCalledTimes(1);
+
+        return expect(extension.whenReady()).resolves.toBe(Widget);
+    });
+
     it("destroys correctly", () => {
         const component = new TestExtensionComponent().$mount();
 
@@ -1183,29 +2111,782 @@ describe("extension component", () => {
     });
 });
 
-describe("disposing", () => {
+describe("deferred creation", () => {
 
-    it("call dispose", () => {
-        const component = new TestComponent().$mount();
+    const Nested = buildTestConfigCtor();
+    (Nested as any as IConfigurationComponent).$_optionName = "nestedOption";
 
-        component.$destroy();
+    const observe = jest.fn();
+    const disconnect = jest.fn();
+    let intersect: (entries: Array<{ isIntersecting: boolean }>) => void;
 
-        expect(Widget.dispose).toBeCalled();
+    beforeEach(() => {
+        (window as any).IntersectionObserver = jest.fn((callback) => {
+            intersect = callback;
+            return { observe, disconnect };
+        });
     });
 
-    it("fires dxremove", () => {
-        const handleDxRemove = jest.fn();
-        const component = new TestComponent().$mount();
+    afterEach(() => {
+        delete (window as any).IntersectionObserver;
+        globalConfig({ deferCreation: false });
+    });
+
+    it("creates widget when element enters the viewport", () => {
+        const vm = new Vue({
+            template: `<test-component defer-creation />`,
+            components: {
+                TestComponent
+            }
+        }).$mount();
+
+        expect(WidgetClass).not.toHaveBeenCalled();
+        expect(observe).toHaveBeenCalledWith(vm.$el);
+
+        intersect([{ isIntersecting: false }]);
+        expect(WidgetClass).not.toHaveBeenCalled();
+
+        intersect([{ isIntersecting: true }]);
+        expect(WidgetClass).toHaveBeenCalledTimes(1);
+        expect(WidgetClass.mock.calls[0][0]).toBe(vm.$el);
+        expect(Widget.endUpdate).toHaveBeenCalledTimes(1);
+        expect(disconnect).toHaveBeenCalledTimes(1);
+    });
+
+    it("is enabled globally", () => {
+        globalConfig({ deferCreation: true });
+        new TestComponent().$mount();
+
+        expect(WidgetClass).not.toHaveBeenCalled();
+    });
+
+    it("is disabled per component", () => {
+        globalConfig({ deferCreation: true });
+        new Vue({
+            template: `<test-component :defer-creation="false" />`,
+            components: {
+                TestComponent
+            }
+        }).$mount();
+
+        expect(WidgetClass).toHaveBeenCalledTimes(1);
+    });
+
+    it("applies changes made before creation", (done) => {
+        const vm = new Vue({
+            template:
+                `<test-component defer-creation :sample-prop="value">` +
+                `  <nested :prop1="nestedValue" />` +
+                `</test-component>`,
+            components: {
+                TestComponent: Vue.extend({
+                    extends: DxComponent,
+                    props: ["sampleProp"],
+                    beforeCreate() {
+                        (this as any as IWidgetComponent).$_WidgetClass = WidgetClass;
+                    }
+                }),
+                Nested
+            },
+            data: {
+                value: "default",
+                nestedValue: 123
+            }
+        }).$mount();
+
+        vm.value = "new";
+        vm.nestedValue = 456;
+
+        Vue.nextTick(() => {
+            intersect([{ isIntersecting: true }]);
+
+            expect(Widget.option).not.toHaveBeenCalled();
+            expect(skipIntegrationOptions(WidgetClass.mock.calls[0][1])).toEqual({
+                sampleProp: "new",
+                nestedOption: {
+                    prop1: 456
+                }
+            });
+            done();
+        });
+    });
+
+    it("stops observing on destroy", () => {
+        const vm = new Vue({
+            template: `<test-component defer-creation />`,
+            components: {
+                TestComponent
+            }
+        }).$mount();
+
+        vm.$destroy();
+
+        expect(disconnect).toHaveBeenCalledTimes(1);
+        expect(Widget.dispose).not.toHaveBeenCalled();
+    });
+
+    it("rejects whenReady if destroyed before creation", () => {
+        globalConfig({ deferCreation: true });
+        const component: any = new TestComponent().$mount();
+        const promise = component.whenReady();
 
-        events.on(component.$el, "dxremove", handleDxRemove);
         component.$destroy();
 
-        expect(handleDxRemove).toHaveBeenCalledTimes(1);
+        return expect(promise).rejects.toEqual(new Error("The component is destroyed before its widget is created."));
     });
+});
 
-    it("destroys correctly", () => {
-        const component = new TestComponent();
+describe("keep-alive", () => {
+
+    function createApp() {
+        return new Vue({
+            template:
+                `<keep-alive>` +
+                `  <test-component v-if="shown" :sample-prop="value" />` +
+                `</keep-alive>`,
+            components: {
+                TestComponent: Vue.extend({
+                    extends: DxComponent,
+                    props: ["sampleProp"],
+                    beforeCreate() {
+                        (this as any as IWidgetComponent).$_WidgetClass = WidgetClass;
+                    }
+                })
+            },
+            data: {
+                shown: true,
+                value: "default"
+            }
+        }).$mount();
+    }
+
+    it("keeps widget on deactivation", (done) => {
+        const vm = createApp();
+        vm.shown = false;
+
+        Vue.nextTick(() => {
+            expect(Widget.dispose).not.toHaveBeenCalled();
+            expect(Widget.hide).not.toHaveBeenCalled();
+
+            vm.shown = true;
+            Vue.nextTick(() => {
+                expect(WidgetClass).toHaveBeenCalledTimes(1);
+                expect(Widget.updateDimensions).toHaveBeenCalledTimes(1);
+                done();
+            });
+        });
+    });
+
+    it("hides overlay on deactivation and shows it on activation", (done) => {
+        const vm = createApp();
+        Widget.option.mockReturnValueOnce(true);
+        vm.shown = false;
+
+        Vue.nextTick(() => {
+            expect(Widget.option).toHaveBeenCalledWith("visible");
+            expect(Widget.hide).toHaveBeenCalledTimes(1);
+
+            vm.shown = true;
+            Vue.nextTick(() => {
+                expect(Widget.show).toHaveBeenCalledTimes(1);
+                done();
+            });
+        });
+    });
+
+    it("applies option changes queued while deactivated", (done) => {
+        const vm = createApp();
+        vm.shown = false;
+
+        Vue.nextTick(() => {
+            vm.value = "new";
+            vm.shown = true;
+
+            Vue.nextTick(() => {
+                expect(Widget.option).toHaveBeenLastCalledWith("sampleProp", "new");
+                expect(Widget.beginUpdate).toHaveBeenCalledTimes(2);
+                expect(Widget.endUpdate).toHaveBeenCalledTimes(2);
+                done();
+            });
+        });
+    });
+
+    it("rolls back option queued while deactivated if its update fails", (done) => {
+        const error = new Error("error message");
+        const onError = jest.fn();
+        const vm = new Vue({
+            template:
+                `<keep-alive>` +
+                `  <test-component v-if="shown" :sample-prop.sync="value" @error="onError" />` +
+                `</keep-alive>`,
+            components: {
+                TestComponent: TestComponent.extend({ props: ["sampleProp"] })
+            },
+            data: {
+                shown: true,
+                value: "default"
+            },
+            methods: {
+                onError
+            }
+        }).$mount();
+        vm.shown = false;
+
+        Vue.nextTick(() => {
+            vm.value = "wrong";
+            vm.shown = true;
+            Widget.option.mockImplementation((name: string, value?: any) => {
+                if (value === "wrong") {
+                    throw error;
+                }
+                return name === "sampleProp" ? "default" : undefined;
+            });
+
+            Vue.nextTick(() => {
+                expect(onError).toHaveBeenCalledTimes(1);
+                expect(onError).toHaveBeenCalledWith({ error, name: "sampleProp", value: "wrong" });
+                expect(Widget.option).toHaveBeenLastCalledWith("sampleProp", "default");
+                expect(Widget.updateDimensions).toHaveBeenCalledTimes(1);
+                expect(vm.value).toBe("default");
+
+                Widget.option.mockReset();
+                done();
+            });
+        });
+    });
+
+    it("doesn't repaint on the first activation", () => {
+        createApp();
+
+        expect(Widget.updateDimensions).not.toHaveBeenCalled();
+    });
+});
+
+describe("server-side rendering", () => {
+
+    const renderer = createRenderer();
+
+    function createApp() {
+        return new Vue({
+            template: `<div>
+                            <test-component id="my-id" class="my-class">
+                                <span>Content</span>
+                                <div slot="item" slot-scope="_">Template</div>
+                            </test-component>
+                        </div>`,
+            components: {
+                TestComponent
+            }
+        });
+    }
+
+    it("renders root element with id, classes and transcluded content", (done) => {
+        renderer.renderToString(createApp(), (error, html) => {
+            expect(error).toBeNull();
+            expect(html).toBe(
+                `<div data-server-rendered="true">` +
+                `<div id="my-id" class="my-class"><span>Content</span></div>` +
+                `</div>`
+            );
+            expect(WidgetClass).not.toHaveBeenCalled();
+            done();
+        });
+    });
+
+    it("creates widget on the existing element while hydrating", (done) => {
+        renderer.renderToString(createApp(), (_, html) => {
+            const container = document.createElement("div");
+            container.innerHTML = html;
+            const serverElement = container.firstElementChild!.firstElementChild;
+
+            const vm = createApp().$mount(container.firstElementChild!, true);
+
+            expect(vm.$el.firstElementChild).toBe(serverElement);
+            expect(WidgetClass).toHaveBeenCalledTimes(1);
+            expect(WidgetClass.mock.calls[0][0]).toBe(serverElement);
+            done();
+        });
+    });
+});
+
+describe("deep watch", () => {
+
+    const ItemsComponent = TestComponent.extend({
+        props: ["items", "dataSource"],
+        beforeCreate() {
+            (this as any).$_deepWatchOptions = ["items", "dataSource"];
+        }
+    });
+
+    function mount(attrs: string, items: any[]) {
+        return new Vue({
+            template: `<items-component :items="items" ${attrs}/>`,
+            components: {
+                ItemsComponent
+            },
+            data: {
+                items
+            }
+        }).$mount();
+    }
+
+    afterEach(() => {
+        globalConfig({ deepWatch: false });
+    });
+
+    it("passes a copy of array mutated in place", (done) => {
+        const vm = mount("deep-watch='items'", [1, 2]);
+
+        vm.$data.items.push(3);
+        Vue.nextTick(() => {
+            expect(Widget.option).toHaveBeenCalledTimes(1);
+            expect(Widget.option.mock.calls[0][0]).toBe("items");
+            expect(Widget.option.mock.calls[0][1]).toEqual([1, 2, 3]);
+            expect(Widget.option.mock.calls[0][1]).not.toBe(vm.$data.items);
+            done();
+        });
+    });
+
+    it("passes a copy of changed item", (done) => {
+        const vm = mount("deep-watch='items'", [{ text: "a" }, { text: "b" }]);
+        const item = vm.$data.items[0];
+
+        item.text = "c";
+        Vue.nextTick(() => {
+            expect(Widget.option).toHaveBeenCalledTimes(1);
+            expect(Widget.option.mock.calls[0][0]).toBe("items[0]");
+            expect(Widget.option.mock.calls[0][1]).toEqual({ text: "c" });
+            expect(Widget.option.mock.calls[0][1]).not.toBe(item);
+            done();
+        });
+    });
+
+    it("passes replaced items", (done) => {
+        const vm = mount("deep-watch='items'", [1, 2, 3]);
+
+        vm.$data.items.splice(0, 1, 4);
+        vm.$set(vm.$data.items, 2, 5);
+        Vue.nextTick(() => {
+            expect(Widget.option).toHaveBeenCalledTimes(2);
+            expect(Widget.option).toHaveBeenCalledWith("items[0]", 4);
+            expect(Widget.option).toHaveBeenCalledWith("items[2]", 5);
+            done();
+        });
+    });
+
+    it("passes changed field of nested plain object", (done) => {
+        const vm = mount("deep-watch='items'", [{ nested: { text: "a" }, value: 1 }]);
+
+        vm.$data.items[0].nested.text = "b";
+        Vue.nextTick(() => {
+            expect(Widget.option).toHaveBeenCalledTimes(1);
+            expect(Widget.option).toHaveBeenCalledWith("items[0]", { nested: { text: "b" }, value: 1 });
+            done();
+        });
+    });
+
+    it("keeps the whole mutated value for the widget created later", (done) => {
+        const vm = mount("deep-watch='items'", [{ text: "a" }]);
+        const config = (vm.$children[0] as any as IConfigurable).$_config;
+
+        vm.$data.items[0].text = "b";
+        Vue.nextTick(() => {
+            expect(config.getInitialValues()).toEqual({ items: [{ text: "b" }] });
+            done();
+        });
+    });
+
+    it("passes reassigned array as is", (done) => {
+        const vm = mount("deep-watch='items'", [1]);
+        const newItems = [2];
+
+        vm.$data.items = newItems;
+        Vue.nextTick(() => {
+            expect(Widget.option).toHaveBeenCalledTimes(1);
+            expect(Widget.option.mock.calls[0][1]).toBe(newItems);
+            done();
+        });
+    });
+
+    it("doesn't detect mutation of nested object by default", (done) => {
+        const vm = mount("", [{ text: "a" }]);
+
+        vm.$data.items[0].text = "b";
+        Vue.nextTick(() => {
+            expect(Widget.option).toHaveBeenCalledTimes(0);
+            done();
+        });
+    });
+
+    it("watches collection options without list", (done) => {
+        const vm = mount("deep-watch", [{ text: "a" }]);
+
+        vm.$data.items[0].text = "b";
+        Vue.nextTick(() => {
+            expect(Widget.option).toHaveBeenCalledTimes(1);
+            expect(vm.$el.hasAttribute("deep-watch")).toBe(false);
+            done();
+        });
+    });
+
+    it("is enabled globally", (done) => {
+        globalConfig({ deepWatch: true });
+        const vm = mount("", [{ text: "a" }]);
+
+        vm.$data.items[0].text = "b";
+        Vue.nextTick(() => {
+            expect(Widget.option).toHaveBeenCalledTimes(1);
+            done();
+        });
+    });
+
+    it("accepts list of options in kebab case", (done) => {
+        const vm = new Vue({
+            template: `<items-component :data-source="items" :deep-watch="['data-source']"/>`,
+            components: {
+                ItemsComponent
+            },
+            data: {
+                items: [{ text: "a" }]
+            }
+        }).$mount();
+
+        vm.$data.items[0].text = "b";
+        Vue.nextTick(() => {
+            expect(Widget.option).toHaveBeenCalledTimes(1);
+            expect(Widget.option.mock.calls[0][0]).toBe("dataSource[0]");
+            done();
+        });
+    });
+
+    it("doesn't read objects that are not plain", (done) => {
+        class Store {
+            public self: Store;
+            public getter: jest.Mock;
+            constructor() {
+                this.self = this;
+                this.getter = jest.fn();
+            }
+        }
+        const store = new Store();
+        Object.defineProperty(store, "data", { get: store.getter, enumerable: true });
+        const vm = mount("deep-watch='items'", [store]);
+
+        vm.$data.items.push(1);
+        Vue.nextTick(() => {
+            expect(store.getter).not.toHaveBeenCalled();
+            expect(Widget.option).toHaveBeenCalledTimes(1);
+            done();
+        });
+    });
+});
+
+describe("batched updates", () => {
+
+    const Nested = buildTestConfigCtor();
+    (Nested as any as IConfigurationComponent).$_optionName = "nestedOption";
+
+    function mount() {
+        return new Vue({
+            template:
+                `<test-component :prop1="prop1" :prop2="prop2">` +
+                `  <nested :prop1="nestedProp"/>` +
+                `</test-component>`,
+            components: {
+                TestComponent: TestComponent.extend({ props: ["prop1", "prop2"] }),
+                Nested
+            },
+            data: {
+                prop1: 1,
+                prop2: "a",
+                nestedProp: 2
+            }
+        }).$mount();
+    }
+
+    afterEach(() => {
+        Widget.option.mockReset();
+    });
+
+    it("applies options changed in a tick within a single update", (done) => {
+        const vm = mount();
+        const calls: string[] = [];
+        jest.clearAllMocks();
+        Widget.beginUpdate.mockImplementationOnce(() => calls.push("beginUpdate"));
+        Widget.endUpdate.mockImplementationOnce(() => calls.push("endUpdate"));
+        Widget.option.mockImplementation((name: string) => calls.push(name));
+
+        vm.prop1 = 10;
+        vm.prop2 = "b";
+        vm.nestedProp = 20;
+        Vue.nextTick(() => {
+            expect(Widget.beginUpdate).toHaveBeenCalledTimes(1);
+            expect(Widget.endUpdate).toHaveBeenCalledTimes(1);
+            expect(Widget.option).toHaveBeenCalledTimes(3);
+            expect(Widget.option).toHaveBeenCalledWith("prop1", 10);
+            expect(Widget.option).toHaveBeenCalledWith("prop2", "b");
+            expect(Widget.option).toHaveBeenCalledWith("nestedOption.prop1", 20);
+            expect(calls[0]).toBe("beginUpdate");
+            expect(calls[4]).toBe("endUpdate");
+            done();
+        });
+    });
+
+    it("runs batch action within a single update", () => {
+        const component: any = mount().$children[0];
+        jest.clearAllMocks();
+
+        component.batch(() => {
+            expect(Widget.beginUpdate).toHaveBeenCalledTimes(1);
+            Widget.option("prop1", 5);
+            Widget.option("prop2", "c");
+            expect(Widget.endUpdate).not.toHaveBeenCalled();
+        });
+
+        expect(Widget.option).toHaveBeenCalledTimes(2);
+        expect(Widget.endUpdate).toHaveBeenCalledTimes(1);
+    });
+
+    it("applies queued options before batch action", () => {
+        const component: any = mount().$children[0];
+        jest.clearAllMocks();
+
+        component.$_config.updateValue("prop1", 10);
+        component.batch(() => Widget.option("prop1", 5));
+
+        expect(Widget.option.mock.calls).toEqual([["prop1", 10], ["prop1", 5]]);
+    });
+
+    it("ends update if batch action throws", () => {
+        const component: any = mount().$children[0];
+        jest.clearAllMocks();
+
+        expect(() => component.batch(() => { throw new Error("action error"); })).toThrow("action error");
+        expect(Widget.endUpdate).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe("error handling", () => {
+
+    const error = new Error("error message");
+
+    function throwError() {
+        throw error;
+    }
+
+    it("emits error if widget creation fails", () => {
+        WidgetClass.mockImplementationOnce(throwError);
+        const onError = jest.fn();
+
+        const vm = new Vue({
+            template: "<test-component ref='component' @error='onError'/>",
+            components: {
+                TestComponent
+            },
+            methods: {
+                onError
+            }
+        }).$mount();
+
+        expect(onError).toHaveBeenCalledTimes(1);
+        expect(onError).toHaveBeenCalledWith({ error, name: undefined, value: undefined });
+        expect((vm.$refs.component as any).$_instance).toBeUndefined();
+    });
+
+    it("disposes widget if its rendering fails", () => {
+        Widget.endUpdate.mockImplementationOnce(throwError);
+        const onError = jest.fn();
+
+        const vm = new Vue({
+            template: "<test-component ref='component' @error='onError'/>",
+            components: {
+                TestComponent
+            },
+            methods: {
+                onError
+            }
+        }).$mount();
+
+        expect(onError).toHaveBeenCalledTimes(1);
+        expect(Widget.dispose).toHaveBeenCalledTimes(1);
+        expect((vm.$refs.component as any).$_instance).toBeUndefined();
+    });
+
+    it("rejects whenReady if widget creation fails", () => {
+        WidgetClass.mockImplementationOnce(throwError);
+        const component: any = new TestComponent();
+        const promise = component.whenReady();
+
+        Vue.config.errorHandler = jest.fn();
+        component.$mount();
+        Vue.config.errorHandler = undefined as any;
+
+        return expect(promise).rejects.toBe(error);
+    });
+
+    it("rejects whenReady requested after widget creation fails", () => {
+        WidgetClass.mockImplementationOnce(throwError);
+        Vue.config.errorHandler = jest.fn();
+        const component: any = new TestComponent().$mount();
+        Vue.config.errorHandler = undefined as any;
+
+        return expect(component.whenReady()).rejects.toBe(error);
+    });
+
+    it("renders error slot", (done) => {
+        WidgetClass.mockImplementationOnce(throwError);
+
+        const vm = new Vue({
+            template: `<test-component @error='() => undefined'>
+                            <span slot="error" slot-scope="{ error }">{{error.message}}</span>
+                        </test-component>`,
+            components: {
+                TestComponent
+            }
+        }).$mount();
+
+        Vue.nextTick(() => {
+            expect(vm.$el.innerHTML).toBe("<span>error message</span>");
+            done();
+        });
+    });
+
+    it("renders error slot without scope", (done) => {
+        WidgetClass.mockImplementationOnce(throwError);
+
+        const vm = new Vue({
+            template: `<test-component @error='() => undefined'>
+                            <span slot="error">fallback</span>
+                        </test-component>`,
+            components: {
+                TestComponent
+            }
+        }).$mount();
+
+        Vue.nextTick(() => {
+            expect(vm.$el.innerHTML).toBe("<span>fallback</span>");
+            done();
+        });
+    });
+
+    it("doesn't pass error slot as template", () => {
+        new Vue({
+            template: `<test-component>
+                            <span slot="error" slot-scope="_">fallback</span>
+                        </test-component>`,
+            components: {
+                TestComponent
+            }
+        }).$mount();
+
+        expect(WidgetClass.mock.calls[0][1].integrationOptions.templates).toBeUndefined();
+    });
+
+    it("passes error to Vue error handler without listener", () => {
+        WidgetClass.mockImplementationOnce(throwError);
+        const errorHandler = jest.fn();
+        Vue.config.errorHandler = errorHandler;
+
+        const vm = new TestComponent().$mount();
+        Vue.config.errorHandler = undefined as any;
+
+        expect(errorHandler).toHaveBeenCalledTimes(1);
+        expect(errorHandler).toHaveBeenCalledWith(error, vm, "widget");
+    });
+
+    it("rolls back option if its update fails", (done) => {
+        const onError = jest.fn();
+        const vm = new Vue({
+            template: "<test-component :sample-prop.sync='value' @error='onError'/>",
+            components: {
+                TestComponent: TestComponent.extend({ props: ["sampleProp"] })
+            },
+            data: {
+                value: "default"
+            },
+            methods: {
+                onError
+            }
+        }).$mount();
+        Widget.option.mockImplementationOnce(throwError);
+
+        vm.$data.value = "wrong";
+        Vue.nextTick(() => {
+            expect(onError).toHaveBeenCalledTimes(1);
+            expect(onError).toHaveBeenCalledWith({ error, name: "sampleProp", value: "wrong" });
+            expect(Widget.option).toHaveBeenCalledWith("sampleProp", "wrong");
+            expect(Widget.option).toHaveBeenLastCalledWith("sampleProp", "default");
+            expect(vm.$data.value).toBe("default");
+            done();
+        });
+    });
+
+    it("rolls back nested option if its update fails", (done) => {
+        const Nested = buildTestConfigCtor();
+        (Nested as any as IConfigurationComponent).$_optionName = "nestedOption";
+        const onError = jest.fn();
+        const vm = new Vue({
+            template: `<test-component @error="onError">
+                            <nested :prop1.sync="value" />
+                        </test-component>`,
+            components: {
+                TestComponent,
+                Nested
+            },
+            data: {
+                value: 123
+            },
+            methods: {
+                onError
+            }
+        }).$mount();
+        Widget.option.mockImplementationOnce(throwError);
+
+        vm.$data.value = 456;
+        Vue.nextTick(() => {
+            expect(onError).toHaveBeenCalledWith({ error, name: "nestedOption.prop1", value: 456 });
+            expect(Widget.option).toHaveBeenLastCalledWith("nestedOption.prop1", 123);
+            expect(WidgetClass.mock.calls.length).toBe(1);
+            expect(vm.$data.value).toBe(123);
+            done();
+        });
+    });
+});
+
+describe("disposing", () => {
+
+    it("call dispose", () => {
+        const component = new TestComponent().$mount();
+
+        component.$destroy();
+
+        expect(Widget.dispose).toBeCalled();
+    });
+
+    it("fires dxremove", () => {
+        const handleDxRemove = jest.fn();
+        const component = new TestComponent().$mount();
+
+        events.on(component.$el, "dxremove", handleDxRemove);
+        component.$destroy();
+
+        expect(handleDxRemove).toHaveBeenCalledTimes(1);
+    });
+
+    it("destroys correctly", () => {
+        const component = new TestComponent();
 
         expect(component.$destroy.bind(component)).not.toThrow();
     });
+
+    it("drops option updates", () => {
+        const component: any = new TestComponent().$mount();
+
+        component.$_config.updateValue("sampleProp", "queued");
+        component.$destroy();
+        component.$_config.updateValue("sampleProp", "new");
+        component.batch(() => undefined);
+
+        expect(Widget.option).not.toHaveBeenCalled();
+    });
 });
@@ -1,93 +1,421 @@
 import * as VueType from "vue";
 import IVue, { VNode, VueConstructor } from "vue";
 
-import * as events from "devextreme/events";
+import * as DxEvents from "devextreme/events";
 
 import { pullAllChildren } from "./children-processing";
+import globalConfig from "./config";
 import Configuration, { bindOptionWatchers, subscribeOnUpdates } from "./configuration";
-import { IConfigurable } from "./configuration-component";
+import { getTemplateOption, IConfigurable, IConfigurationComponent } from "./configuration-component";
+import { getGlobalDefaults } from "./defaults";
+import { DEFAULTS_PROVIDER_KEY, IDefaultsProvider } from "./defaults-component";
+import { getVnodeClasses, preserveForeignClasses } from "./element-classes";
 import { IExtension, IExtensionComponentNode } from "./extension-component";
-import { camelize, toComparable } from "./helpers";
+import { camelize, getOptionValue, toComparable } from "./helpers";
+import TemplatePool from "./template-pool";
+import { observeVisibility } from "./visibility";
+import { getWidgets, IWidgetInfo, registerWidget, unregisterWidget } from "./widget-registry";
 
 interface IWidgetComponent extends IConfigurable {
     $_instance: any;
     $_WidgetClass: any;
 }
 
-interface IEventBusHolder {
-    eventBus: IVue;
+interface ITemplateOptions {
+    $_isTemplate: boolean;
 }
 
-interface IBaseComponent extends IVue, IWidgetComponent, IEventBusHolder {
+interface IBaseComponent extends IVue, IWidgetComponent {
     $_isExtension: boolean;
+    $_updatedVnode: VNode | undefined;
+    $_stopPreservingClasses: (() => void) | undefined;
+    $_isDeactivated: boolean;
+    $_hasHiddenOverlay: boolean;
+    $_pendingOptions: Record<string, any>;
+    $_isReady: boolean;
+    $_readyPromise: Promise<any> | undefined;
+    $_resolveReady: ((instance: any) => void) | undefined;
+    $_rejectReady: ((error: any) => void) | undefined;
+    $_eventHandlers: Record<string, (e: any) => void>;
+    $_templatePools: Record<string, TemplatePool>;
+    $_nestedTemplates: Record<string, any>;
+    $_addedNestedTemplates: string[];
+    $_templates?: string[];
+    $_deepWatchOptions?: string[];
+    $_defaultsProvider: IDefaultsProvider | null;
+    $_creationError: any;
     $_createWidget: (element: any) => void;
+    $_failCreation: (error: any) => void;
+    $_failReady: (error: any) => void;
+    $_reportError: (error: any, name?: string, value?: any) => void;
+    $_flushUpdates: (action?: () => void) => void;
+    $_repaint: () => void;
+    $_notifyReady: (element: any) => void;
     $_getIntegrationOptions: () => void;
     $_getExtraIntegrationOptions: () => void;
     $_getWatchMethod: () => void;
     $_createEmitters: () => void;
+    $_syncEmitters: () => void;
     $_fillTemplate: () => void;
+    $_registerNestedTemplates: (nodes: VNode[]) => void;
+    $_addNestedTemplates: () => void;
+    $_clearTemplatePools: () => void;
     $_processChildren: () => void;
 }
 
+interface IDxComponent extends IBaseComponent {
+    $_cancelDeferredCreation?: () => void;
+}
+
 const Vue = VueType.default || VueType;
 
 const DX_TEMPLATE_WRAPPER_CLASS = "dx-template-wrapper";
 const DX_REMOVE_EVENT = "dxremove";
+const DEFER_CREATION_ATTR = "defer-creation";
+const RECYCLE_TEMPLATES_ATTR = "recycle-templates";
+const DEEP_WATCH_ATTR = "deep-watch";
+const ERROR_SLOT = "error";
+const ERROR_EVENT = "error";
+
+// DevExtreme events are loaded on demand, so rendering on the server doesn't touch DevExtreme
+function getEvents(): typeof DxEvents {
+    return require("devextreme/events");
+}
+
+function isModeEnabled(component: IVue, attrName: string, globalValue: boolean): boolean {
+    const attrValue = component.$attrs[attrName] as any;
+    if (attrValue === undefined) {
+        return globalValue;
+    }
+
+    return attrValue !== false && attrValue !== "false";
+}
+
+function getRootAttrs(attrs: Record<string, string>): Record<string, string> {
+    const result: Record<string, string> = {};
+    Object.keys(attrs).forEach((name: string) => {
+        if (name !== DEFER_CREATION_ATTR && name !== RECYCLE_TEMPLATES_ATTR && name !== DEEP_WATCH_ATTR) {
+            result[name] = attrs[name];
+        }
+    });
+
+    return result;
+}
+
+// the attribute lists the options to watch deeply; without a list the collection options are watched
+function getDeepWatchOptions(component: IBaseComponent): string[] {
+    const attrValue = component.$attrs[DEEP_WATCH_ATTR] as any;
+    if (Array.isArray(attrValue)) {
+        return attrValue.map(camelize);
+    }
+
+    if (typeof attrValue === "string" && attrValue !== "" && attrValue !== "true" && attrValue !== "false") {
+        return attrValue.split(/\s+/).filter((name: string) => !!name).map(camelize);
+    }
+
+    return isModeEnabled(component, DEEP_WATCH_ATTR, globalConfig().deepWatch)
+        ? component.$_deepWatchOptions || []
+        : [];
+}
+
+// an unset option gets the widget's default value
+function setOption(instance: any, name: string, value: any): void {
+    if (value !== undefined) {
+        instance.option(name, value);
+        return;
+    }
+
+    if (typeof instance.resetOption === "function") {
+        instance.resetOption(name);
+        return;
+    }
+
+    instance.option(name, getDefaultOptionValue(instance, name));
+}
+
+// 'initialOption' returns the default value of a root option only, so the value of a nested one is taken from it
+function getDefaultOptionValue(instance: any, name: string): any {
+    if (typeof instance.initialOption !== "function") {
+        return undefined;
+    }
+
+    const rootName = name.split(/[.[]/)[0];
+    return getOptionValue({ [rootName]: instance.initialOption(rootName) }, name);
+}
+
+// widgets render global settings, such as localized messages, when they are created or repainted
+function repaintWidgets(): void {
+    getWidgets().forEach((widget: IWidgetInfo) => (widget.component as IBaseComponent).$_repaint());
+}
+
+function getModelKey(model: any): any {
+    return model && typeof model === "object" ? model.key : undefined;
+}
 
 const BaseComponent: VueConstructor<IBaseComponent> = Vue.extend({
 
     inheritAttrs: false,
 
-    data() {
-        return {
-            eventBus: new Vue()
-        };
-    },
-
-    provide() {
-        return {
-            eventBus: this.eventBus
-        };
+    inject: {
+        $_defaultsProvider: {
+            from: DEFAULTS_PROVIDER_KEY,
+            default: null
+        }
     },
 
     render(createElement: (...args) => VNode): VNode {
         const children: VNode[] = [];
         pullAllChildren(this.$slots.default, children, this.$_config);
+        this.$_registerNestedTemplates(children);
 
         this.$_processChildren(children);
+
+        const error = this.$_creationError;
+        if (error) {
+            const errorSlot = this.$scopedSlots[ERROR_SLOT];
+            return createElement(
+                "div",
+                {
+                    attrs: getRootAttrs(this.$attrs)
+                },
+                errorSlot ? [errorSlot({ error })] : this.$slots[ERROR_SLOT]
+            );
+        }
+
         return createElement(
             "div",
             {
-                attrs: { id: this.$attrs.id }
+                attrs: getRootAttrs(this.$attrs)
             },
             children
         );
     },
 
-    updated() {
-        this.eventBus.$emit("updated");
+    mounted(): void {
+        (this as IBaseComponent).$_updatedVnode = this.$vnode;
+        (this as IBaseComponent).$_stopPreservingClasses = preserveForeignClasses(
+            this.$el,
+            () => getVnodeClasses(this.$vnode)
+        );
+        subscribeOnUpdates(this.$_config, this);
+        bindOptionWatchers(this.$_config, this, getDeepWatchOptions(this));
+
+        // Vue runs the watchers scheduled for a tick in the order they are created, so this watcher applies
+        // the updates queued by option watchers of the widget and its nested components within the same tick
+        this.$watch(() => this.$data.$_flushRequests, () => this.$_flushUpdates());
+        this.$_config.scheduleFlushFunc = () => this.$data.$_flushRequests++;
+    },
+
+    beforeUpdate(): void {
+        // A parent re-render passes a new vnode. Templates track the reactive data they read by themselves,
+        // so only an update of the component itself, such as an explicit '$forceUpdate', re-renders them.
+        if (this.$vnode === this.$_updatedVnode) {
+            this.$children.forEach((child: IVue) => {
+                if ((child.$options as ITemplateOptions).$_isTemplate) {
+                    child.$forceUpdate();
+                }
+            });
+        }
+        (this as IBaseComponent).$_updatedVnode = this.$vnode;
+    },
+
+    deactivated(): void {
+        (this as IBaseComponent).$_isDeactivated = true;
+
+        const instance = this.$_instance;
+        if (instance && typeof instance.hide === "function" && instance.option("visible")) {
+            (this as IBaseComponent).$_hasHiddenOverlay = true;
+            instance.hide();
+        }
+    },
+
+    activated(): void {
+        if (!this.$_isDeactivated) { return; }
+
+        (this as IBaseComponent).$_isDeactivated = false;
+
+        const instance = this.$_instance;
+        if (!instance) { return; }
+
+        if (this.$_hasHiddenOverlay) {
+            (this as IBaseComponent).$_hasHiddenOverlay = false;
+            instance.show();
+        }
+
+        const pendingOptions = this.$_pendingOptions;
+        (this as IBaseComponent).$_pendingOptions = {};
+        if (Object.keys(pendingOptions).length) {
+            instance.beginUpdate();
+            Object.keys(pendingOptions).forEach((name: string) => {
+                const previousValue = instance.option(name);
+                try {
+                    setOption(instance, name, pendingOptions[name]);
+                } catch (error) {
+                    this.$_reportError(error, name, pendingOptions[name]);
+                    this.$_config.rollbackValue(name, previousValue);
+                }
+            });
+            try {
+                instance.endUpdate();
+            } catch (error) {
+                this.$_reportError(error);
+            }
+        }
+
+        if (typeof instance.updateDimensions === "function") {
+            instance.updateDimensions();
+        } else if (typeof instance.repaint === "function") {
+            instance.repaint();
+        }
     },
 
     beforeDestroy(): void {
+        if (this.$_stopPreservingClasses) {
+            this.$_stopPreservingClasses();
+        }
+        this.$_config.dispose();
+        unregisterWidget(this);
+
+        if (!this.$_isReady && !this.$_creationError) {
+            this.$_failReady(new Error("The component is destroyed before its widget is created."));
+        }
+
         const instance = this.$_instance;
         if (instance) {
-            events.triggerHandler(this.$el, DX_REMOVE_EVENT);
+            getEvents().triggerHandler(this.$el, DX_REMOVE_EVENT);
             instance.dispose();
         }
+
+        this.$_clearTemplatePools();
+    },
+
+    data(): Record<string, any> {
+        return {
+            $_flushRequests: 0,
+            // the widget is held by a frozen object, so Vue doesn't observe it
+            $_instanceRef: Object.freeze({ value: undefined })
+        };
+    },
+
+    computed: {
+        $_instance: {
+            get(): any {
+                return this.$data.$_instanceRef.value;
+            },
+            set(value: any): void {
+                this.$data.$_instanceRef = Object.freeze({ value });
+            }
+        }
     },
 
     created(): void {
+        (this as IBaseComponent).$_pendingOptions = {};
+        (this as IBaseComponent).$_templatePools = {};
+        (this as IBaseComponent).$_nestedTemplates = {};
+        (this as IBaseComponent).$_addedNestedTemplates = [];
         (this as IBaseComponent).$_config = new Configuration(
-            (n: string, v: any) => this.$_instance.option(n, v),
+            (n: string, v: any): boolean => {
+                if (this.$_isDeactivated) {
+                    delete this.$_pendingOptions[n];
+                    this.$_pendingOptions[n] = v;
+                    return true;
+                }
+
+                try {
+                    setOption(this.$_instance, n, v);
+                } catch (error) {
+                    this.$_reportError(error, n, v);
+                    return false;
+                }
+
+                return true;
+            },
             null,
             this.$options.propsData && { ...this.$options.propsData },
             this.$_expectedChildren
         );
 
         this.$_config.init(this.$props && Object.keys(this.$props));
+        this.$_config.suspendUpdates();
+
+        const name = this.$options.name;
+        const provider = this.$_defaultsProvider;
+        if (provider && name) {
+            this.$watch(
+                () => provider.getDefaults(name),
+                (defaults: Record<string, any> | undefined) => this.$_config.updateDefaults(defaults),
+                { deep: true, immediate: true }
+            );
+        } else {
+            this.$_config.defaults = getGlobalDefaults(name);
+        }
     },
 
     methods: {
+        whenReady(): Promise<any> {
+            if (this.$_readyPromise) {
+                return this.$_readyPromise;
+            }
+
+            if (this.$_isReady) {
+                return (this as IBaseComponent).$_readyPromise = Promise.resolve(this.$_instance);
+            }
+
+            if (this.$_creationError) {
+                return (this as IBaseComponent).$_readyPromise = Promise.reject(this.$_creationError);
+            }
+
+            return (this as IBaseComponent).$_readyPromise = new Promise((resolve, reject) => {
+                (this as IBaseComponent).$_resolveReady = resolve;
+                (this as IBaseComponent).$_rejectReady = reject;
+            });
+        },
+
+        batch(action: () => void): void {
+            this.$_flushUpdates(action);
+        },
+
+        $_flushUpdates(action?: () => void): void {
+            // a deactivated widget gets the flushed options within a single update on activation
+            this.$_addNestedTemplates();
+
+            const instance = this.$_isDeactivated ? undefined : this.$_instance;
+            if (instance) {
+                instance.beginUpdate();
+            }
+
+            try {
+                this.$_config.flushUpdates();
+                if (action) {
+                    action();
+                }
+            } finally {
+                if (instance) {
+                    try {
+                        instance.endUpdate();
+                    } catch (error) {
+                        this.$_reportError(error);
+                    }
+                }
+            }
+        },
+
+        $_repaint(): void {
+            const instance = this.$_instance;
+            if (!instance) { return; }
+
+            try {
+                // visualization widgets are redrawn by 'render'
+                if (typeof instance.repaint === "function") {
+                    instance.repaint();
+                } else if (typeof instance.render === "function") {
+                    instance.render();
+                }
+            } catch (error) {
+                this.$_reportError(error);
+            }
+        },
+
         $_createWidget(element: any): void {
             const config = this.$_config;
             const options: object = {
@@ -95,24 +423,81 @@ const BaseComponent: VueConstructor<IBaseComponent> = Vue.extend({
                 ...config.getInitialValues(),
                 ...this.$_getIntegrationOptions()
             };
-            const instance = new this.$_WidgetClass(element, options);
+            let instance: any;
+            try {
+                instance = new this.$_WidgetClass(element, options);
+            } catch (error) {
+                this.$_failCreation(error);
+                return;
+            }
             (this as IBaseComponent).$_instance = instance;
+            registerWidget(this, element);
+            config.resumeUpdates();
 
-            instance.on("optionChanged", (args) => config.onOptionChanged(args));
-            subscribeOnUpdates(config, this);
-            bindOptionWatchers(config, this);
+            instance.on("optionChanged", (args) => {
+                if (!this.$_isDeactivated) {
+                    config.onOptionChanged(args);
+                }
+            });
             this.$_createEmitters(instance);
         },
 
-        $_getIntegrationOptions(): object {
-            const TEMPLATE_PROP = "template";
-            function shouldAddTemplate(child) {
-                return child.$vnode
-                && child.$vnode.componentOptions.$_config
-                && child.$vnode.componentOptions.$_config.name
-                && TEMPLATE_PROP in child.$props
-                && child.$scopedSlots.default;
+        $_failCreation(error: any): void {
+            const instance = this.$_instance;
+            if (instance) {
+                (this as IBaseComponent).$_instance = undefined;
+                unregisterWidget(this);
+                this.$_config.suspendUpdates();
+                instance.dispose();
+                this.$_clearTemplatePools();
+            }
+
+            this.$_failReady(error);
+            this.$forceUpdate();
+            this.$_reportError(error);
+        },
+
+        // 'whenReady' is rejected with the error once the widget isn't going to be created
+        $_failReady(error: any): void {
+            (this as IBaseComponent).$_creationError = error;
+
+            const rejectReady = this.$_rejectReady;
+            if (rejectReady) {
+                (this as IBaseComponent).$_resolveReady = undefined;
+                (this as IBaseComponent).$_rejectReady = undefined;
+                rejectReady(error);
+            }
+        },
+
+        $_reportError(error: any, name?: string, value?: any): void {
+            if (this.$listeners[ERROR_EVENT]) {
+                this.$emit(ERROR_EVENT, { error, name, value });
+                return;
+            }
+
+            if (Vue.config.errorHandler) {
+                Vue.config.errorHandler(error, this, "widget");
+                return;
             }
+
+            // tslint:disable-next-line:no-console
+            console.error(error);
+        },
+
+        $_notifyReady(element: any): void {
+            const instance = this.$_instance;
+            (this as IBaseComponent).$_isReady = true;
+            this.$emit("initialized", { component: instance, element });
+
+            const resolveReady = this.$_resolveReady;
+            if (resolveReady) {
+                (this as IBaseComponent).$_resolveReady = undefined;
+                (this as IBaseComponent).$_rejectReady = undefined;
+                resolveReady(instance);
+            }
+        },
+
+        $_getIntegrationOptions(): object {
             const result: Record<string, any> = {
                 integrationOptions:  {
                     watchMethod: this.$_getWatchMethod(),
@@ -120,16 +505,27 @@ const BaseComponent: VueConstructor<IBaseComponent> = Vue.extend({
                 ...this.$_getExtraIntegrationOptions(),
             };
 
+            (this as IBaseComponent).$_addedNestedTemplates = [];
             const templates = {
-                ...this.$scopedSlots
+                ...this.$scopedSlots,
+                ...(this as IBaseComponent).$_nestedTemplates
             };
-            this.$children.forEach((child: any) => {
-                if (shouldAddTemplate(child)) {
-                    const templateName = `${child.$vnode.componentOptions.$_config.fullPath}.${TEMPLATE_PROP}`;
-                    templates[templateName] = child.$scopedSlots.default;
-                    result[templateName] = templateName;
-                }
-            });
+            delete templates[ERROR_SLOT];
+
+            const widgetTemplates = (this as IBaseComponent).$_templates;
+            const propsData = this.$options.propsData || {};
+            const configuredValues = this.$_config.getInitialValues() || {};
+            if (widgetTemplates) {
+                // a slot named after a template option is used as this option's template unless the option
+                // is set by a prop, a nested component or the defaults
+                Object.keys(this.$scopedSlots).forEach((slotName: string) => {
+                    const optionName = getTemplateOption({ $_templates: widgetTemplates }, slotName, () => false);
+                    if (optionName && !propsData.hasOwnProperty(optionName)
+                        && configuredValues[optionName] === undefined) {
+                        result[optionName] = slotName;
+                    }
+                });
+            }
 
             if (Object.keys(templates).length) {
                 result.integrationOptions.templates = {};
@@ -172,40 +568,125 @@ const BaseComponent: VueConstructor<IBaseComponent> = Vue.extend({
             return;
         },
 
+        // a slot of a nested configuration component is bound to a template option of its configuration
+        // under a unique name, so that the template is passed to the widget along with the nested value
+        $_registerNestedTemplates(nodes: VNode[]): void {
+            const nestedTemplates = (this as IBaseComponent).$_nestedTemplates;
+            nodes.forEach((node: VNode) => {
+                const componentOptions = node.componentOptions;
+                const config = componentOptions && (componentOptions as any as IConfigurable).$_config;
+                const slots = node.data && node.data.scopedSlots;
+                if (!config || !config.name || !slots) { return; }
+
+                const component = componentOptions!.Ctor as any as IConfigurationComponent;
+                const props = (componentOptions!.Ctor as any).options.props || {};
+                Object.keys(slots).forEach((slotName: string) => {
+                    const optionName = getTemplateOption(component, slotName, (name: string) => name in props);
+                    if (!optionName || config.initialValues[optionName] !== undefined) { return; }
+
+                    const baseName = `${config.absolutePath}.${optionName}`;
+                    let templateName = baseName;
+                    for (let i = 1; nestedTemplates.hasOwnProperty(templateName); i++) {
+                        templateName = `${baseName}-${i}`;
+                    }
+
+                    nestedTemplates[templateName] = slots[slotName];
+                    this.$_addedNestedTemplates.push(templateName);
+                    config.setTemplate(optionName, templateName);
+                });
+            });
+        },
+
+        // the widget looks templates up when it renders them, so templates of nested components added
+        // after the widget is created are put into its templates before the nested values are passed
+        $_addNestedTemplates(): void {
+            const instance = this.$_instance;
+            const added = this.$_addedNestedTemplates;
+            if (!instance || !added.length) { return; }
+
+            (this as IBaseComponent).$_addedNestedTemplates = [];
+            const widgetTemplates = instance.option("integrationOptions.templates");
+            if (!widgetTemplates) { return; }
+
+            added.forEach((name: string) => {
+                widgetTemplates[name] = this.$_fillTemplate(this.$_nestedTemplates[name], name);
+            });
+        },
+
         $_fillTemplate(template: any, name: string): object {
+            const pool = isModeEnabled(this, RECYCLE_TEMPLATES_ATTR, globalConfig().recycleTemplates)
+                ? (this.$_templatePools[name] = new TemplatePool())
+                : undefined;
+
             return {
                 render: (data: any) => {
-                    const vm = new Vue({
-                        name,
-                        inject: ["eventBus"],
-                        parent: this,
-                        created() {
-                            (this as IEventBusHolder).eventBus.$on("updated", () => {
-                                this.$forceUpdate();
-                            });
-                        },
-                        render: () => template(data.model)
-                    }).$mount();
+                    const key = getModelKey(data.model);
+                    // the model is held by a frozen object, so Vue doesn't observe the widget's data
+                    const modelRef = Object.freeze({ value: data.model });
+                    let vm = pool && pool.take(key);
+                    if (vm) {
+                        // the widget measures and processes the element once it is rendered, so the reused
+                        // instance is re-rendered with the new model at once rather than on the next tick
+                        vm.$data.$_modelRef = modelRef;
+                        (vm as any)._update((vm as any)._render(), false);
+                    } else {
+                        vm = new Vue({
+                            name,
+                            parent: this,
+                            $_isTemplate: true,
+                            data: {
+                                $_modelRef: modelRef
+                            },
+                            render() {
+                                return template(this.$data.$_modelRef.value);
+                            }
+                        } as any);
+                        vm.$mount();
+                    }
 
                     const element = vm.$el;
                     element.classList.add(DX_TEMPLATE_WRAPPER_CLASS);
-
                     const container = data.container.get ? data.container.get(0) : data.container;
                     container.appendChild(element);
 
-                    events.one(element, DX_REMOVE_EVENT, vm.$destroy.bind(vm));
+                    getEvents().one(element, DX_REMOVE_EVENT, pool
+                        ? () => pool.release(vm!, key)
+                        : vm.$destroy.bind(vm)
+                    );
 
                     return element;
                 }
             };
         },
 
+        $_clearTemplatePools(): void {
+            const pools = this.$_templatePools;
+            Object.keys(pools).forEach((name: string) => pools[name].clear());
+        },
+
         $_createEmitters(instance: any): void {
+            (this as IBaseComponent).$_eventHandlers = {};
+            this.$_syncEmitters(instance);
+            this.$watch(() => this.$listeners, () => this.$_syncEmitters(instance));
+        },
+
+        $_syncEmitters(instance: any): void {
+            const handlers = this.$_eventHandlers;
+
+            Object.keys(handlers).forEach((listenerName: string) => {
+                if (this.$listeners[listenerName]) { return; }
+
+                instance.off(camelize(listenerName), handlers[listenerName]);
+                delete handlers[listenerName];
+            });
+
             Object.keys(this.$listeners).forEach((listenerName: string) => {
-                const eventName = camelize(listenerName);
-                instance.on(eventName, (e: any) => {
+                if (handlers[listenerName]) { return; }
+
+                handlers[listenerName] = (e: any) => {
                     this.$emit(listenerName, e);
-                });
+                };
+                instance.on(camelize(listenerName), handlers[listenerName]);
             });
         }
     }
@@ -228,17 +709,45 @@ const DxComponent: VueConstructor = BaseComponent.extend({
                 (childNode.componentOptions as any as IExtensionComponentNode).$_hasOwner = true;
             });
         },
+
+        $_initWidget(): void {
+            this.$_createWidget(this.$el);
+            if (!this.$_instance) { return; }
+
+            try {
+                this.$_instance.endUpdate();
+            } catch (error) {
+                this.$_failCreation(error);
+                return;
+            }
+
+            this.$children.forEach((child: IExtension) => {
+                if (child.$_isExtension) {
+                    child.attachTo(this.$el);
+                }
+            });
+            this.$_notifyReady(this.$el);
+        }
     },
 
     mounted(): void {
-        this.$_createWidget(this.$el);
-        this.$_instance.endUpdate();
-        this.$children.forEach((child: IExtension) => {
-            if (child.$_isExtension) {
-                child.attachTo(this.$el);
-            }
+        if (!isModeEnabled(this, DEFER_CREATION_ATTR, globalConfig().deferCreation)) {
+            this.$_initWidget();
+            return;
+        }
+
+        (this as IDxComponent).$_cancelDeferredCreation = observeVisibility(this.$el, () => {
+            (this as IDxComponent).$_cancelDeferredCreation = undefined;
+            this.$_initWidget();
         });
+    },
+
+    beforeDestroy(): void {
+        const cancelDeferredCreation = (this as IDxComponent).$_cancelDeferredCreation;
+        if (cancelDeferredCreation) {
+            cancelDeferredCreation();
+        }
     }
 });
 
-export { DxComponent, BaseComponent, IWidgetComponent };
+export { DxComponent, BaseComponent, IWidgetComponent, repaintWidgets };
@@ -0,0 +1,28 @@
+interface IOptions {
+    deferCreation: boolean;
+    recycleTemplates: boolean;
+    deepWatch: boolean;
+    comparisonDepth: number;
+}
+
+const options: IOptions = {
+    deferCreation: false,
+    recycleTemplates: false,
+    deepWatch: false,
+    comparisonDepth: 3
+};
+
+function config(): IOptions;
+function config(newOptions: Partial<IOptions>): void;
+function config(newOptions?: Partial<IOptions>): IOptions | void {
+    if (!newOptions) {
+        return { ...options };
+    }
+
+    Object.keys(newOptions).forEach((name: string) => {
+        options[name] = newOptions[name];
+    });
+}
+
+export default config;
+export { IOptions };
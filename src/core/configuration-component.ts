@@ -4,6 +4,11 @@ import { VNode, VueConstructor } from "vue";
 const Vue = VueType.default || VueType;
 
 import Configuration, { bindOptionWatchers, ExpectedChild, subscribeOnUpdates } from "./configuration";
+import { camelize } from "./helpers";
+
+const DEFAULT_SLOT = "default";
+const TEMPLATE_OPTION = "template";
+const TEMPLATE_OPTION_SUFFIX = "Template";
 
 interface IConfigurationOwner {
     $_expectedChildren: Record<string, ExpectedChild>;
@@ -13,6 +18,7 @@ interface IConfigurationComponent extends IConfigurationOwner {
     $_optionName: string;
     $_isCollectionItem: boolean;
     $_predefinedProps: Record<string, any>;
+    $_templates?: string[];
 }
 
 interface IConfigurable extends IConfigurationOwner {
@@ -34,4 +40,22 @@ const DxConfiguration: VueConstructor = Vue.extend({
     }
 });
 
-export { DxConfiguration, IConfigurable, IConfigurationComponent };
+// the default slot is bound to the 'template' option, a named slot - to the '<slot name>Template' option;
+// without the generated templates list any declared prop with the matching name is a template option
+function getTemplateOption(
+    component: { $_templates?: string[] },
+    slotName: string,
+    isDeclaredProp: (name: string) => boolean
+): string | undefined {
+    const optionName = slotName === DEFAULT_SLOT
+        ? TEMPLATE_OPTION
+        : camelize(slotName) + TEMPLATE_OPTION_SUFFIX;
+
+    const isTemplate = component.$_templates
+        ? component.$_templates.indexOf(optionName) !== -1
+        : isDeclaredProp(optionName);
+
+    return isTemplate ? optionName : undefined;
+}
+
+export { DxConfiguration, IConfigurable, IConfigurationComponent, getTemplateOption };
@@ -1,4 +1,10 @@
-import Configuration, { bindOptionWatchers, ExpectedChild, subscribeOnUpdates, UpdateFunc } from "./configuration";
+import Configuration, {
+    bindOptionWatchers,
+    ExpectedChild,
+    observeOptionTraffic,
+    subscribeOnUpdates,
+    UpdateFunc
+} from "./configuration";
 
 function createRootConfig(updateFunc: UpdateFunc): Configuration {
     return new Configuration(updateFunc, null, {});
@@ -24,6 +30,19 @@ it("calls update from nested", () => {
     expect(callback).toHaveBeenCalledWith("option.prop", 123);
 });
 
+it("calls update of value part from nested", () => {
+    const callback = jest.fn();
+    const root = createRootConfig(callback);
+    const nested = root.createNested("option", {});
+    const items = [{ text: "a" }];
+
+    nested.updateValuePart("items", "[0]", { text: "a" }, items);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith("option.items[0]", { text: "a" });
+    expect(nested.initialValues).toEqual({ items });
+});
+
 it("calls update from subnested", () => {
     const callback = jest.fn();
     const root = createRootConfig(callback);
@@ -193,6 +212,493 @@ it("subscribeOnUpdates does'not call update with empty array change", () => {
     expect(emitStub).toHaveBeenCalledTimes(0);
 });
 
+it("subscribeOnUpdates doesn't call update with structurally equal value", () => {
+    const emitStub = jest.fn();
+
+    const config: any = {
+        name: null
+    };
+
+    subscribeOnUpdates(
+        config,
+        {
+            $emit: emitStub
+        }
+    );
+    config.optionChangedFunc({
+        name: "option1",
+        fullName: "option1",
+        value: [{ date: new Date(2018, 9, 9) }],
+        previousValue: [{ date: new Date(2018, 9, 9) }]
+    });
+
+    expect(emitStub).toHaveBeenCalledTimes(0);
+});
+
+it("option watcher skips structurally equal value", () => {
+    const updateValueFunc = jest.fn();
+    const $watchFunc = jest.fn();
+
+    bindOptionWatchers(
+        {
+            updateValue: updateValueFunc,
+            getOptionsToWatch: () => ["prop1"],
+        } as any,
+        {
+            $watch: $watchFunc
+        }
+    );
+
+    $watchFunc.mock.calls[0][1]({ items: [1, 2] }, { items: [1, 2] });
+    expect(updateValueFunc).not.toHaveBeenCalled();
+
+    $watchFunc.mock.calls[0][1]({ items: [1, 3] }, { items: [1, 2] });
+    expect(updateValueFunc).toHaveBeenCalledTimes(1);
+});
+
+it("removes unset value from initial values", () => {
+    const callback = jest.fn();
+    const root = createRootConfig(callback);
+    const nested = root.createNested("option", { prop: 1, prop2: 2 });
+
+    nested.updateValue("prop", undefined);
+
+    expect(callback).toHaveBeenCalledWith("option.prop", undefined);
+    expect(root.getInitialValues()).toEqual({ option: { prop2: 2 } });
+});
+
+it("resets unset value to default", () => {
+    const callback = jest.fn();
+    const root = createRootConfig(callback);
+    root.defaults = { option: { prop: "default" } };
+    const nested = root.createNested("option", { prop: 1 });
+
+    nested.updateValue("prop", undefined);
+
+    expect(callback).toHaveBeenCalledWith("option.prop", "default");
+    expect(root.getInitialValues()).toEqual({ option: { prop: "default" } });
+});
+
+it("passes values changed by defaults", () => {
+    const callback = jest.fn();
+    const root = createRootConfig(callback);
+    root.defaults = { prop: 1, option: { prop: 2 } };
+    root.createNested("option", { prop2: 3 });
+
+    root.updateDefaults({ prop: 1, option: { prop: 4 }, other: 5 });
+
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(callback).toHaveBeenCalledWith("option", { prop: 4, prop2: 3 });
+    expect(callback).toHaveBeenCalledWith("other", 5);
+});
+
+it("doesn't pass values overridden by the changed defaults", () => {
+    const callback = jest.fn();
+    const root = new Configuration(callback, null, { prop: 1 });
+    root.defaults = { prop: 2 };
+
+    root.updateDefaults({ prop: 3 });
+
+    expect(callback).not.toHaveBeenCalled();
+    expect(root.getInitialValues()).toEqual({ prop: 1 });
+});
+
+it("rolls back value rejected by update", () => {
+    const callback = jest.fn((_: string, value: any) => value !== "wrong");
+    const root = createRootConfig(callback);
+    const nested = root.createNested("option", { prop: "default" });
+
+    nested.updateValue("prop", "wrong");
+
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(callback).toHaveBeenLastCalledWith("option.prop", "default");
+    expect(root.getInitialValues()).toEqual({ option: { prop: "default" } });
+});
+
+it("builds absolute path of subnested collectionItem", () => {
+    const root = createRootConfig(jest.fn());
+    root.createNested("option", {});
+    const nested = root.createNested("collection", {}, true);
+    const subNested = nested.createNested("subCollection", {}, true);
+
+    expect(root.absolutePath).toBeNull();
+    expect(nested.absolutePath).toBe("collection[0]");
+    expect(subNested.fullPath).toBe("subCollection[0]");
+    expect(subNested.absolutePath).toBe("collection[0].subCollection[0]");
+});
+
+describe("feedback loop", () => {
+
+    it("doesn't report the value passed to the widget", () => {
+        const optionChanged = jest.fn();
+        const root = createRootConfig((name: string, value: any) => {
+            root.onOptionChanged({ name, fullName: name, value });
+            root.onOptionChanged({ name: "other", fullName: "other", value });
+        });
+        const nested = root.createNested("option", {});
+        nested.optionChangedFunc = optionChanged;
+
+        root.updateValue("prop", [1]);
+
+        expect(optionChanged).toHaveBeenCalledTimes(1);
+        expect(optionChanged.mock.calls[0][0].fullName).toBe("other");
+    });
+
+    it("reports the value changed by the widget", () => {
+        const optionChanged = jest.fn();
+        const root = createRootConfig((name: string, value: any) => {
+            root.onOptionChanged({ name, fullName: name, value: value + 1 });
+        });
+        root.optionChangedFunc = optionChanged;
+
+        root.updateValue("prop", 1);
+
+        expect(optionChanged).toHaveBeenCalledTimes(1);
+        expect(optionChanged.mock.calls[0][0].value).toBe(2);
+    });
+
+    it("skips updates of an option exceeding the limit until the next task", () => {
+        const warn = jest.spyOn(console, "warn");
+        warn.mockImplementation(() => undefined);
+        const callback = jest.fn();
+        const root = createRootConfig(callback);
+        // the widget changes the value it gets, and the value is passed back
+        const changeByWidget = (value: number) => root.onOptionChanged({ name: "prop", fullName: "prop", value });
+
+        try {
+            for (let i = 0; i < 15; i++) {
+                root.updateValue("prop", i);
+                changeByWidget(i + 100);
+            }
+            root.updateValue("other", 1);
+
+            expect(callback).toHaveBeenCalledTimes(12);
+            expect(callback).toHaveBeenCalledWith("prop", 10);
+            expect(callback).not.toHaveBeenCalledWith("prop", 11);
+            expect(callback).toHaveBeenLastCalledWith("other", 1);
+            expect(warn).toHaveBeenCalledTimes(1);
+        } finally {
+            warn.mockRestore();
+        }
+
+        return Promise.resolve().then(() => {
+            changeByWidget(200);
+            root.updateValue("prop", 20);
+            expect(callback).toHaveBeenCalledTimes(12);
+
+            return new Promise((resolve) => setTimeout(resolve));
+        }).then(() => {
+            changeByWidget(200);
+            root.updateValue("prop", 21);
+            expect(callback).toHaveBeenLastCalledWith("prop", 21);
+        });
+    });
+
+    it("passes all updates that don't follow the widget's changes", () => {
+        const callback = jest.fn();
+        const root = createRootConfig(callback);
+
+        for (let i = 0; i < 15; i++) {
+            root.updateValue("prop", i);
+        }
+
+        expect(callback).toHaveBeenCalledTimes(15);
+        expect(callback).toHaveBeenLastCalledWith("prop", 14);
+    });
+});
+
+describe("queued updates", () => {
+
+    it("are applied on flush", () => {
+        const callback = jest.fn();
+        const schedule = jest.fn();
+        const root = createRootConfig(callback);
+        const nested = root.createNested("option", {});
+        root.scheduleFlushFunc = schedule;
+
+        root.updateValue("prop", 1);
+        nested.updateValue("prop", 2);
+
+        expect(callback).not.toHaveBeenCalled();
+        expect(schedule).toHaveBeenCalledTimes(1);
+        expect(root.getInitialValues()).toEqual({ prop: 1, option: { prop: 2 } });
+
+        nested.flushUpdates();
+
+        expect(callback).toHaveBeenCalledTimes(2);
+        expect(callback.mock.calls).toEqual([["prop", 1], ["option.prop", 2]]);
+    });
+
+    it("keep the latest value of an option", () => {
+        const callback = jest.fn();
+        const root = createRootConfig(callback);
+        root.scheduleFlushFunc = jest.fn();
+
+        root.updateValue("prop1", 1);
+        root.updateValue("prop2", 2);
+        root.updateValue("prop1", 3);
+        root.flushUpdates();
+
+        expect(callback.mock.calls).toEqual([["prop2", 2], ["prop1", 3]]);
+    });
+
+    it("roll back the value the widget had before", () => {
+        const callback = jest.fn((_: string, value: any) => value !== "wrong");
+        const root = createRootConfig(callback);
+        const nested = root.createNested("option", { prop: "default" });
+        root.scheduleFlushFunc = jest.fn();
+
+        nested.updateValue("prop", "new");
+        nested.updateValue("prop", "wrong");
+        root.flushUpdates();
+
+        expect(callback).toHaveBeenCalledTimes(2);
+        expect(callback).toHaveBeenLastCalledWith("option.prop", "default");
+        expect(root.getInitialValues()).toEqual({ option: { prop: "default" } });
+    });
+
+    it("schedule the next flush after the previous one", () => {
+        const schedule = jest.fn();
+        const root = createRootConfig(jest.fn());
+        root.scheduleFlushFunc = schedule;
+
+        root.updateValue("prop", 1);
+        root.flushUpdates();
+        root.updateValue("prop", 2);
+
+        expect(schedule).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe("suspended updates", () => {
+
+    it("are kept in initial values only", () => {
+        const callback = jest.fn();
+        const root = createRootConfig(callback);
+        const nested = root.createNested("option", {});
+        root.suspendUpdates();
+
+        nested.updateValue("prop", 1);
+
+        expect(callback).not.toHaveBeenCalled();
+        expect(root.getInitialValues()).toEqual({ option: { prop: 1 } });
+    });
+
+    it("are applied after resuming", () => {
+        const callback = jest.fn();
+        const root = createRootConfig(callback);
+        const nested = root.createNested("option", {});
+        nested.suspendUpdates();
+        nested.resumeUpdates();
+
+        nested.updateValue("prop", 1);
+
+        expect(callback).toHaveBeenCalledWith("option.prop", 1);
+    });
+
+    it("are dropped after disposing", () => {
+        const callback = jest.fn();
+        const root = createRootConfig(callback);
+        root.scheduleFlushFunc = jest.fn();
+
+        root.updateValue("prop", 1);
+        root.dispose();
+        root.updateValue("prop", 2);
+        root.flushUpdates();
+
+        expect(callback).not.toHaveBeenCalled();
+    });
+});
+
+describe("nested tree update", () => {
+
+    function buildTree(root: Configuration, keys: any[]): Configuration[] {
+        root.beginNestedUpdate();
+        const items = keys.map((key) => root.createNested("items", { text: key }, true, undefined, key));
+        root.endNestedUpdate();
+
+        return items;
+    }
+
+    it("doesn't update the widget on the first build", () => {
+        const callback = jest.fn();
+        buildTree(createRootConfig(callback), ["a", "b"]);
+
+        expect(callback).not.toHaveBeenCalled();
+    });
+
+    it("reuses configurations with the same key", () => {
+        const callback = jest.fn();
+        const root = createRootConfig(callback);
+        const [a, b] = buildTree(root, ["a", "b"]);
+
+        const items = buildTree(root, ["a", "b"]);
+
+        expect(items[0]).toBe(a);
+        expect(items[1]).toBe(b);
+        expect(root.nested).toEqual([a, b]);
+        expect(callback).not.toHaveBeenCalled();
+    });
+
+    it("reuses unkeyed configurations by position", () => {
+        const root = createRootConfig(jest.fn());
+        const [a, b] = buildTree(root, [undefined, undefined]);
+
+        expect(buildTree(root, [undefined])).toEqual([a]);
+        expect(root.nested).not.toContain(b);
+    });
+
+    it("updates collection with moved items", () => {
+        const callback = jest.fn();
+        const root = createRootConfig(callback);
+        const [a, b] = buildTree(root, ["a", "b"]);
+
+        buildTree(root, ["b", "a"]);
+
+        expect(b.fullPath).toBe("items[0]");
+        expect(a.fullPath).toBe("items[1]");
+        expect(callback.mock.calls).toEqual([
+            ["items[0]", { text: "b" }],
+            ["items[1]", { text: "a" }]
+        ]);
+    });
+
+    it("updates collection with inserted and removed items", () => {
+        const callback = jest.fn();
+        const root = createRootConfig(callback);
+        buildTree(root, ["a", "b"]);
+
+        buildTree(root, ["a", "c"]);
+        buildTree(root, ["a", "d", "c"]);
+        buildTree(root, ["c"]);
+        buildTree(root, []);
+
+        expect(callback.mock.calls).toEqual([
+            ["items[1]", { text: "c" }],
+            ["items[1]", { text: "d" }],
+            ["items[2]", { text: "c" }],
+            ["items", [{ text: "c" }]],
+            ["items", []]
+        ]);
+    });
+
+    it("updates sub-nested collection", () => {
+        const callback = jest.fn();
+        const root = createRootConfig(callback);
+        const build = (keys: string[]) => {
+            root.beginNestedUpdate();
+            const nested = root.createNested("option", {});
+            nested.beginNestedUpdate();
+            keys.forEach((key) => nested.createNested("items", { text: key }, true, undefined, key));
+            nested.endNestedUpdate();
+            root.endNestedUpdate();
+        };
+        build(["a"]);
+
+        build(["a", "b"]);
+
+        expect(callback).toHaveBeenCalledTimes(1);
+        expect(callback).toHaveBeenCalledWith("option.items[1]", { text: "b" });
+    });
+
+    it("updates inserted nested option", () => {
+        const callback = jest.fn();
+        const root = createRootConfig(callback);
+        buildTree(root, []);
+
+        root.beginNestedUpdate();
+        root.createNested("option", { prop: 1 });
+        root.endNestedUpdate();
+
+        expect(callback).toHaveBeenCalledTimes(1);
+        expect(callback).toHaveBeenCalledWith("option", { prop: 1 });
+    });
+
+    it("resets removed nested option", () => {
+        const callback = jest.fn();
+        const root = createRootConfig(callback);
+        root.beginNestedUpdate();
+        root.createNested("option", { prop: 1 });
+        root.endNestedUpdate();
+
+        buildTree(root, []);
+
+        expect(callback).toHaveBeenCalledTimes(1);
+        expect(callback).toHaveBeenCalledWith("option", undefined);
+        expect(root.getInitialValues()).toBeUndefined();
+    });
+
+    it("skips queued item updates of updated collection", () => {
+        const callback = jest.fn();
+        const root = createRootConfig(callback);
+        const [a] = buildTree(root, ["a", "b"]);
+        root.scheduleFlushFunc = jest.fn();
+
+        a.updateValue("text", "new");
+        buildTree(root, ["b", "a"]);
+        root.flushUpdates();
+
+        expect(callback.mock.calls).toEqual([
+            ["items[0]", { text: "b" }],
+            ["items[1]", { text: "new" }]
+        ]);
+    });
+
+    it("applies queued updates of items that keep their index", () => {
+        const callback = jest.fn();
+        const root = createRootConfig(callback);
+        const [a] = buildTree(root, ["a", "b", "c"]);
+        root.scheduleFlushFunc = jest.fn();
+
+        a.updateValue("text", "new");
+        buildTree(root, ["a", "c", "b"]);
+        root.flushUpdates();
+
+        expect(callback.mock.calls).toEqual([
+            ["items[0].text", "new"],
+            ["items[1]", { text: "c" }],
+            ["items[2]", { text: "b" }]
+        ]);
+    });
+
+    it("merges queued item updates of collection", () => {
+        const callback = jest.fn();
+        const root = createRootConfig(callback);
+        buildTree(root, ["a", "b", "c"]);
+        root.scheduleFlushFunc = jest.fn();
+
+        buildTree(root, ["a", "c", "b"]);
+        buildTree(root, ["b", "c", "a"]);
+        root.flushUpdates();
+
+        expect(callback.mock.calls).toEqual([
+            ["items[1]", { text: "c" }],
+            ["items[2]", { text: "a" }],
+            ["items[0]", { text: "b" }]
+        ]);
+    });
+});
+
+describe("option traffic", () => {
+
+    it("reports updated values and values changed by the widget", () => {
+        const listener = jest.fn();
+        const root = createRootConfig(jest.fn());
+        const nested = root.createNested("option", {}, true);
+        const stopObserving = observeOptionTraffic(listener);
+
+        nested.updateValue("prop", 1);
+        root.onOptionChanged({ name: "option", fullName: "option[0].prop", value: 2 });
+        stopObserving();
+        root.updateValue("prop", 3);
+
+        expect(listener.mock.calls).toEqual([
+            [{ type: "update", rootConfig: root, fullName: "option[0].prop", value: 1 }],
+            [{ type: "optionChanged", rootConfig: root, fullName: "option[0].prop", value: 2 }]
+        ]);
+    });
+});
+
 describe("initial configuration", () => {
 
     it("pulls value from nested", () => {
@@ -266,6 +772,21 @@ describe("initial configuration", () => {
         });
     });
 
+    it("pulls values updated before widget creation", () => {
+        const root = new Configuration(jest.fn(), null, { propA: 123 });
+        const nested = root.createNested("option", { propB: 456 });
+
+        root.updateValue("propA", 789);
+        nested.updateValue("propB", "abc");
+
+        expect(root.getInitialValues()).toEqual({
+            propA: 789,
+            option: {
+                propB: "abc"
+            }
+        });
+    });
+
     it("pulls undefined if no values provided", () => {
         const root = createRootConfig(jest.fn());
 
@@ -296,6 +817,19 @@ describe("initial configuration", () => {
         });
     });
 
+    it("merges defaults beneath values", () => {
+        const root = new Configuration(jest.fn(), null, { prop: 1 });
+        root.defaults = { prop: 10, other: 20, option: { subProp: 30, subProp2: 40 } };
+
+        root.createNested("option", { subProp: 3 });
+
+        expect(root.getInitialValues()).toEqual({
+            prop: 1,
+            other: 20,
+            option: { subProp: 3, subProp2: 40 }
+        });
+    });
+
 });
 
 describe("collection items creation", () => {
@@ -1,7 +1,46 @@
 import { Vue } from "vue/types/vue";
-import { isEqual } from "./helpers";
+import globalConfig from "./config";
+import { mergeDefaults } from "./defaults";
+import { getOptionValue, isEqual, isPlainObject } from "./helpers";
 
-type UpdateFunc = (name: string, value: any) => void;
+// returns false if the widget rejects the value; an undefined value resets the option to its default
+type UpdateFunc = (name: string, value: any) => boolean | void;
+
+// a value bouncing between a prop and the widget, i.e. passed to the widget right after the widget has changed it,
+// is passed to the widget this many times until the next task
+const MAX_UPDATE_COUNT = 10;
+
+interface IPushedValue {
+    fullName: string;
+    value: any;
+}
+
+interface IQueuedUpdate {
+    config: Configuration;
+    name: string;
+    value?: any;
+    previousValue?: any;
+    // the value of an option set by nested configurations is taken when the update is applied
+    isNestedValue?: boolean;
+    // the collection items of a nested value that are passed to the widget one by one, e.g. "columns[1]"
+    itemIndexes?: number[];
+    // a value changed by the defaults isn't rolled back, since it isn't kept in the initial values
+    isDefaultValue?: boolean;
+    // a part of a value, e.g. an array item, isn't rolled back either, since its previous value isn't kept
+    isPartialValue?: boolean;
+}
+
+// "update" - a component passes a value to the configuration, "optionChanged" - the widget reports a value
+interface IOptionTraffic {
+    type: "update" | "optionChanged";
+    rootConfig: Configuration;
+    fullName: string;
+    value: any;
+}
+
+type TrafficListener = (traffic: IOptionTraffic) => void;
+
+const trafficListeners: TrafficListener[] = [];
 
 interface ExpectedChild {
     isCollectionItem: boolean;
@@ -12,12 +51,28 @@ class Configuration {
 
     private readonly _name: string | null;
     private readonly _isCollectionItem: boolean;
-    private readonly _collectionItemIndex: number | undefined;
+    private readonly _key: any;
+    private _collectionItemIndex: number | undefined;
     private readonly _initialValues: Record<string, any>;
     private readonly _expectedChildren: Record<string, ExpectedChild>;
     private readonly _updateFunc: UpdateFunc;
     private _nestedConfigurations: Configuration[];
+    private _previousNested: Configuration[] | undefined;
+    private _reusableNested: Configuration[] = [];
+    private _isNestedTreeBuilt: boolean = false;
+    private _ownerConfig: Configuration | undefined;
     private _optionChangedFunc: any;
+    private _rollbackFunc: ((name: string, value: any) => void) | undefined;
+    private _scheduleFlushFunc: (() => void) | undefined;
+    private _queuedUpdates: IQueuedUpdate[] = [];
+    private _isSuspended: boolean = false;
+    private _isDisposed: boolean = false;
+    private _pushedValues: IPushedValue[] = [];
+    private _updateCounts: Record<string, number> = {};
+    // options the widget has changed since the configuration passed them to it
+    private _optionsChangedByWidget: Record<string, boolean> = {};
+    private _isCountResetScheduled: boolean = false;
+    private _defaults: Record<string, any> | undefined;
 
     private _options: string[];
 
@@ -28,6 +83,7 @@ class Configuration {
         expectedChildren?: Record<string, ExpectedChild>,
         isCollectionItem?: boolean,
         collectionItemIndex?: number,
+        key?: any
     ) {
         this._updateFunc = updateFunc;
         this._name = name;
@@ -35,9 +91,11 @@ class Configuration {
         this._nestedConfigurations = [];
         this._isCollectionItem = !!isCollectionItem;
         this._collectionItemIndex = collectionItemIndex;
+        this._key = key;
         this._expectedChildren = expectedChildren || {};
 
         this.updateValue = this.updateValue.bind(this);
+        this._updateNestedValue = this._updateNestedValue.bind(this);
     }
 
     public get name(): string | null {
@@ -48,6 +106,11 @@ class Configuration {
         return this._isCollectionItem ? `${this._name}[${this._collectionItemIndex}]` : this._name;
     }
 
+    public get absolutePath(): string | null {
+        const ownerPath = this._ownerConfig && this._ownerConfig.absolutePath;
+        return ownerPath ? `${ownerPath}.${this.fullPath}` : this.fullPath;
+    }
+
     public get options(): string[] {
         return this._options;
     }
@@ -76,6 +139,47 @@ class Configuration {
         return this._updateFunc;
     }
 
+    // the default values of the widget's options are overridden by the initial values of the root
+    // and nested configurations, and an option is reset to its default value when it's unset
+    public get defaults(): Record<string, any> | undefined {
+        return this._defaults;
+    }
+
+    public set defaults(values: Record<string, any> | undefined) {
+        this._defaults = values;
+    }
+
+    // the options whose values depend on the changed defaults are passed to the widget again
+    public updateDefaults(values: Record<string, any> | undefined): void {
+        const previousValues = this.getInitialValues() || {};
+        this._defaults = values && mergeDefaults(values, {});
+        const currentValues = this.getInitialValues() || {};
+
+        const depth = globalConfig().comparisonDepth;
+        Object.keys({ ...previousValues, ...currentValues }).forEach((name: string) => {
+            if (!isEqual(previousValues[name], currentValues[name], depth)) {
+                this._scheduleUpdate({ config: this, name, value: currentValues[name], isDefaultValue: true });
+            }
+        });
+    }
+
+    // passes a value the widget has by default, e.g. a localized message, without keeping it in the initial values
+    public updateDefaultValue(name: string, value: any): void {
+        this._scheduleUpdate({ config: this, name, value, isDefaultValue: true });
+    }
+
+    // restores an option of this or a nested configuration, e.g. "columns[0].width", when the widget rejects
+    // its value passed later than the update, e.g. on activation of a deactivated component
+    public rollbackValue(fullName: string, value: any): void {
+        const nested = this._nestedConfigurations.filter((c) => fullName.indexOf(`${c.fullPath}.`) === 0)[0];
+        if (nested) {
+            nested.rollbackValue(fullName.slice(nested.fullPath!.length + 1), value);
+            return;
+        }
+
+        this._rollback(fullName, value);
+    }
+
     public init(options: string[]): void {
         this._options = options ? options : [];
     }
@@ -84,7 +188,65 @@ class Configuration {
         this._optionChangedFunc = handler;
     }
 
+    // the handler gets the value an option is restored to when the widget rejects its new value
+    public set rollbackFunc(handler: (name: string, value: any) => void) {
+        this._rollbackFunc = handler;
+    }
+
+    // once set on the root configuration, updates of all configurations are queued until 'flushUpdates' is called;
+    // the handler is called when the first update is queued
+    public set scheduleFlushFunc(handler: () => void) {
+        this._scheduleFlushFunc = handler;
+    }
+
+    // until updates are resumed they are kept in the initial values only, so that the widget created
+    // later gets them; updates of a disposed configuration are dropped
+    public suspendUpdates(): void {
+        this._getRoot()._isSuspended = true;
+    }
+
+    public resumeUpdates(): void {
+        this._getRoot()._isSuspended = false;
+    }
+
+    public dispose(): void {
+        const root = this._getRoot();
+        root._isDisposed = true;
+        root._queuedUpdates = [];
+    }
+
+    public flushUpdates(): void {
+        const root = this._getRoot();
+        const updates = root._queuedUpdates;
+        root._queuedUpdates = [];
+        if (root._isSuspended || root._isDisposed) {
+            return;
+        }
+
+        const nestedValueUpdates = updates.filter((u) => u.isNestedValue);
+        updates.forEach((u) => {
+            // the whole value of an option set by nested configurations includes the changes of its parts
+            const isInside = (n: IQueuedUpdate) => u.config._isInside(n.config, n.name, n.itemIndexes);
+            if (u.isNestedValue || !nestedValueUpdates.some(isInside)) {
+                u.config._applyUpdate(u);
+            }
+        });
+    }
+
     public onOptionChanged(args: {name: string, fullName: string, value: any}): void {
+        if (!this._ownerConfig && trafficListeners.length) {
+            const { fullName, value } = args;
+            notifyTrafficListeners({ type: "optionChanged", rootConfig: this, fullName, value });
+        }
+
+        // the widget reports the value the configuration has just passed to it, so it isn't sent back
+        if (this._pushedValues.some((p) => p.fullName === args.fullName && isEqual(p.value, args.value))) {
+            return;
+        }
+
+        if (!this._ownerConfig) {
+            this._optionsChangedByWidget[args.fullName] = true;
+        }
         if (this._optionChangedFunc) {
             this._optionChangedFunc(args);
         }
@@ -97,11 +259,69 @@ class Configuration {
         this._nestedConfigurations = [];
     }
 
+    // nested configurations created until 'endNestedUpdate' is called replace the current ones; a previous
+    // configuration with the same option name and key (or position among unkeyed ones) is reused
+    public beginNestedUpdate(): void {
+        this._previousNested = this._nestedConfigurations;
+        this._reusableNested = this._nestedConfigurations.slice();
+        this._nestedConfigurations = [];
+    }
+
+    public endNestedUpdate(): void {
+        const previous = this._previousNested;
+        this._previousNested = undefined;
+        this._reusableNested = [];
+
+        // the tree built for the first time is passed to the widget within the initial values
+        if (!previous || !this._isNestedTreeBuilt) {
+            this._isNestedTreeBuilt = true;
+            return;
+        }
+
+        const current = this._nestedConfigurations;
+        const names: string[] = [];
+        previous.concat(current).forEach((c) => {
+            if (c._name && names.indexOf(c._name) === -1) {
+                names.push(c._name);
+            }
+        });
+
+        names.forEach((name: string) => {
+            const previousItems = previous.filter((c) => c._name === name);
+            const currentItems = current.filter((c) => c._name === name);
+            const isCollection = previousItems.concat(currentItems).some((c) => c._isCollectionItem);
+
+            // a collection without items is cleared, a removed nested option is reset
+            const value = isCollection ? [] : undefined;
+            if (!isCollection || !previousItems.length || currentItems.length < previousItems.length) {
+                const isChanged = previousItems.length !== currentItems.length
+                    || previousItems.some((c, index) => c !== currentItems[index]);
+                if (isChanged) {
+                    this._scheduleUpdate({ config: this, name, value, isNestedValue: true });
+                }
+                return;
+            }
+
+            // moved and added items are passed by index, so that the widget keeps the state of the collection
+            const itemIndexes: number[] = [];
+            currentItems.forEach((c, index) => c !== previousItems[index] && itemIndexes.push(index));
+            if (itemIndexes.length) {
+                this._scheduleUpdate({ config: this, name, value, isNestedValue: true, itemIndexes });
+            }
+        });
+    }
+
+    // a template is passed to the widget within the initial values, so that it isn't lost with the whole value
+    public setTemplate(name: string, templateName: string): void {
+        this._initialValues[name] = templateName;
+    }
+
     public createNested(
         name: string,
         initialValues: Record<string, any>,
         isCollectionItem?: boolean,
-        expectedChildren?: Record<string, ExpectedChild>
+        expectedChildren?: Record<string, ExpectedChild>,
+        key?: any
     ): Configuration {
 
         const expected = this._expectedChildren[name];
@@ -119,23 +339,53 @@ class Configuration {
             collectionItemIndex = this._nestedConfigurations.filter((c) => c._name && c._name === actualName).length;
         }
 
+        const reused = this._takeReusableNested(actualName, !!actualIsCollectionItem, key);
+        if (reused) {
+            reused._collectionItemIndex = collectionItemIndex;
+            this._nestedConfigurations.push(reused);
+
+            return reused;
+        }
+
         const configuration = new Configuration(
-            this.updateValue,
+            this._updateNestedValue,
             actualName,
             initialValues,
             expectedChildren,
             actualIsCollectionItem,
-            collectionItemIndex
+            collectionItemIndex,
+            key
         );
 
+        configuration._ownerConfig = this;
         this._nestedConfigurations.push(configuration);
 
         return configuration;
     }
 
-    public updateValue(nestedName: string, value: any): void {
-        const fullName = [this.fullPath, nestedName].filter((n) => n).join(".");
-        this._updateFunc(fullName, value);
+    public updateValue(name: string, value: any): void {
+        // keeps the latest value so that a widget created later gets it within the initial values
+        const previousValue = this._initialValues[name];
+        this._setInitialValue(name, value);
+
+        if (trafficListeners.length) {
+            const fullName = [this.absolutePath, name].filter((n) => n).join(".");
+            notifyTrafficListeners({ type: "update", rootConfig: this._getRoot(), fullName, value });
+        }
+
+        this._scheduleUpdate({ config: this, name, value, previousValue });
+    }
+
+    // passes a changed part of an option's value, e.g. "[1]" or ".text", to the widget
+    public updateValuePart(name: string, path: string, partValue: any, value: any): void {
+        this._setInitialValue(name, value);
+
+        if (trafficListeners.length) {
+            const fullName = [this.absolutePath, name + path].filter((n) => n).join(".");
+            notifyTrafficListeners({ type: "update", rootConfig: this._getRoot(), fullName, value: partValue });
+        }
+
+        this._scheduleUpdate({ config: this, name: name + path, value: partValue, isPartialValue: true });
     }
 
     public getInitialValues(): Record<string, any> | undefined {
@@ -162,7 +412,8 @@ class Configuration {
             }
         });
 
-        return Object.keys(values).length > 0 ? values : undefined;
+        const result = this._defaults ? mergeDefaults(this._defaults, values) : values;
+        return Object.keys(result).length > 0 ? result : undefined;
     }
 
     public getOptionsToWatch(): string[] {
@@ -171,17 +422,309 @@ class Configuration {
 
         return this._options.filter((o) => !blackList[o]);
     }
+
+    private _getRoot(): Configuration {
+        return this._ownerConfig ? this._ownerConfig._getRoot() : this;
+    }
+
+    private _takeReusableNested(name: string, isCollectionItem: boolean, key: any): Configuration | undefined {
+        const reusable = this._reusableNested;
+        for (let i = 0; i < reusable.length; i++) {
+            const c = reusable[i];
+            if (c._name === name && c._isCollectionItem === isCollectionItem && c._key === key) {
+                reusable.splice(i, 1);
+                return c;
+            }
+        }
+
+        return undefined;
+    }
+
+    private _isInside(config: Configuration, name: string, itemIndexes?: number[]): boolean {
+        let current: Configuration = this;
+        while (current._ownerConfig) {
+            if (current._ownerConfig === config && current._name === name) {
+                return !itemIndexes || itemIndexes.indexOf(current._collectionItemIndex!) !== -1;
+            }
+            current = current._ownerConfig;
+        }
+
+        return false;
+    }
+
+    private _getNestedValue(name: string, defaultValue: any): any {
+        const nested = this._nestedConfigurations.filter((c) => c._name === name);
+        if (!nested.length) {
+            return defaultValue;
+        }
+
+        const values = nested.map((c) => c.getInitialValues() || {});
+        if (!nested[0]._isCollectionItem) {
+            return values[values.length - 1];
+        }
+
+        return values;
+    }
+
+    private _scheduleUpdate(update: IQueuedUpdate): void {
+        const root = this._getRoot();
+        if (root._isSuspended || root._isDisposed) {
+            return;
+        }
+
+        if (!root._scheduleFlushFunc) {
+            this._applyUpdate(update);
+            return;
+        }
+
+        root._queueUpdate(update);
+    }
+
+    private _queueUpdate(update: IQueuedUpdate): void {
+        const queue = this._queuedUpdates;
+        for (let i = 0; i < queue.length; i++) {
+            const queued = queue[i];
+            if (queued.config === update.config && queued.name === update.name
+                && !queued.isNestedValue === !update.isNestedValue
+                && !queued.isDefaultValue === !update.isDefaultValue) {
+                // the value the widget has is restored if the latest one is rejected
+                update.previousValue = queued.previousValue;
+                const queuedIndexes = queued.itemIndexes;
+                update.itemIndexes = queuedIndexes && update.itemIndexes
+                    && queuedIndexes.concat(update.itemIndexes.filter((index) => queuedIndexes.indexOf(index) === -1));
+                queue.splice(i, 1);
+                break;
+            }
+        }
+
+        queue.push(update);
+        if (queue.length === 1 && this._scheduleFlushFunc) {
+            this._scheduleFlushFunc();
+        }
+    }
+
+    private _applyUpdate(update: IQueuedUpdate): void {
+        const name = update.name;
+        if (update.isNestedValue) {
+            const value = this._getNestedValue(name, update.value);
+            const itemIndexes = update.itemIndexes;
+            if (itemIndexes) {
+                itemIndexes.forEach((index) => this._updateNestedValue(`${name}[${index}]`, value[index]));
+                return;
+            }
+
+            this._updateNestedValue(name, value);
+            return;
+        }
+
+        if (update.isDefaultValue || update.isPartialValue) {
+            this._updateNestedValue(name, update.value);
+            return;
+        }
+
+        if (this._updateNestedValue(name, update.value) === false) {
+            this._rollback(name, update.previousValue);
+        }
+    }
+
+    private _rollback(name: string, value: any): void {
+        this._setInitialValue(name, value);
+        this._updateNestedValue(name, value);
+        if (this._rollbackFunc) {
+            this._rollbackFunc(name, value);
+        }
+    }
+
+    // an unset value isn't passed to the widget, so that the widget's default is used
+    private _setInitialValue(name: string, value: any): void {
+        if (value === undefined) {
+            delete this._initialValues[name];
+            return;
+        }
+
+        this._initialValues[name] = value;
+    }
+
+    private _updateNestedValue(nestedName: string, value: any): boolean | void {
+        const fullName = [this.fullPath, nestedName].filter((n) => n).join(".");
+        if (this._ownerConfig) {
+            return this._updateFunc(fullName, value);
+        }
+
+        if (this._isUpdateLooped(fullName)) {
+            return;
+        }
+
+        if (value === undefined && this._defaults) {
+            value = getOptionValue(this._defaults, fullName);
+        }
+
+        this._pushedValues.push({ fullName, value });
+        try {
+            return this._updateFunc(fullName, value);
+        } finally {
+            this._pushedValues.pop();
+        }
+    }
+
+    private _isUpdateLooped(fullName: string): boolean {
+        // only a value passed back after the widget's change is a round trip of a loop, other updates aren't limited
+        const isRoundTrip = this._optionsChangedByWidget[fullName];
+        delete this._optionsChangedByWidget[fullName];
+        if (!isRoundTrip) {
+            delete this._updateCounts[fullName];
+            return false;
+        }
+
+        // Vue ticks are microtasks, so the counts are kept for the updates of all ticks run before the next task
+        if (!this._isCountResetScheduled) {
+            this._isCountResetScheduled = true;
+            setTimeout(() => {
+                this._isCountResetScheduled = false;
+                this._updateCounts = {};
+            });
+        }
+
+        const count = this._updateCounts[fullName] = (this._updateCounts[fullName] || 0) + 1;
+        if (count <= MAX_UPDATE_COUNT) {
+            return false;
+        }
+
+        const isProduction = typeof process !== "undefined" && process.env.NODE_ENV === "production";
+        if (count === MAX_UPDATE_COUNT + 1 && !isProduction) {
+            // tslint:disable-next-line:no-console
+            console.warn(
+                `The '${fullName}' option is updated more than ${MAX_UPDATE_COUNT} times in a row. ` +
+                `Its further updates are skipped. Make sure the value bound to the option isn't changed ` +
+                `in an update event handler.`
+            );
+        }
+
+        return true;
+    }
 }
 
-function bindOptionWatchers(config: Configuration, vueInstance: Pick<Vue, "$watch">): void {
+function bindOptionWatchers(config: Configuration, vueInstance: Pick<Vue, "$watch">, deepOptions?: string[]): void {
     const targets = config.getOptionsToWatch();
     if (targets) {
         targets.forEach((optionName: string) => {
-            vueInstance.$watch(optionName, (value) => config.updateValue(optionName, value));
+            if (deepOptions && deepOptions.indexOf(optionName) !== -1) {
+                bindDeepWatcher(config, vueInstance, optionName);
+                return;
+            }
+
+            vueInstance.$watch(optionName, (value, oldValue) => {
+                if (!isEqual(value, oldValue, globalConfig().comparisonDepth)) {
+                    config.updateValue(optionName, value);
+                }
+            });
         });
     }
 }
 
+function bindDeepWatcher(config: Configuration, vueInstance: Pick<Vue, "$watch">, optionName: string): void {
+    let copy = copyDeep((vueInstance as any)[optionName]);
+    vueInstance.$watch(
+        () => touchDeep((vueInstance as any)[optionName]),
+        (value, oldValue) => {
+            const previousCopy = copy;
+            copy = copyDeep(value);
+
+            if (value !== oldValue) {
+                if (!isEqual(value, oldValue, globalConfig().comparisonDepth)) {
+                    config.updateValue(optionName, value);
+                }
+                return;
+            }
+
+            // a widget skips the value it already has, so changed parts are passed as new arrays or objects
+            const changedParts = getChangedParts(value, previousCopy);
+            if (!changedParts) {
+                config.updateValue(optionName, copyShallow(value));
+                return;
+            }
+
+            changedParts.forEach((part: { path: string, value: any }) => {
+                config.updateValuePart(optionName, part.path, copyShallow(part.value), value);
+            });
+        }
+    );
+}
+
+// reads nested arrays and plain objects to subscribe to their changes; other objects (e.g. DataSource)
+// are not reactive and can contain circular references
+function touchDeep(value: any, seen: Set<any> = new Set()): any {
+    if ((Array.isArray(value) || isPlainObject(value)) && !seen.has(value)) {
+        seen.add(value);
+        Object.keys(value).forEach((key: string) => touchDeep(value[key], seen));
+    }
+
+    return value;
+}
+
+// copies nested arrays and plain objects, so that the changes made to them in place can be found later
+function copyDeep(value: any, copies: Map<any, any> = new Map()): any {
+    if (!Array.isArray(value) && !isPlainObject(value)) {
+        return value;
+    }
+
+    if (copies.has(value)) {
+        return copies.get(value);
+    }
+
+    const copy = Array.isArray(value) ? [] : {};
+    copies.set(value, copy);
+    Object.keys(value).forEach((key: string) => copy[key] = copyDeep(value[key], copies));
+
+    return copy;
+}
+
+function isEqualToCopy(value: any, copy: any, seen: Set<any> = new Set()): boolean {
+    if (!Array.isArray(value) && !isPlainObject(value)) {
+        return value === copy;
+    }
+
+    if (seen.has(value)) {
+        return true;
+    }
+    seen.add(value);
+
+    if (!copy || typeof copy !== "object" || Array.isArray(value) !== Array.isArray(copy)) {
+        return false;
+    }
+
+    const keys = Object.keys(value);
+    return keys.length === Object.keys(copy).length
+        && keys.every((key: string) => copy.hasOwnProperty(key) && isEqualToCopy(value[key], copy[key], seen));
+}
+
+// the items of an array whose length is kept and the fields of a plain object whose keys are kept
+// are compared with the copy one by one; otherwise the whole value is changed
+function getChangedParts(value: any, copy: any): Array<{ path: string, value: any }> | undefined {
+    const isArray = Array.isArray(value);
+    if (!isArray && !isPlainObject(value) || !copy || typeof copy !== "object" || isArray !== Array.isArray(copy)) {
+        return undefined;
+    }
+
+    const keys = Object.keys(value);
+    const copyKeys = Object.keys(copy);
+    if (keys.length !== copyKeys.length || keys.some((key: string) => !copy.hasOwnProperty(key))) {
+        return undefined;
+    }
+
+    return keys
+        .filter((key: string) => !isEqualToCopy(value[key], copy[key]))
+        .map((key: string) => ({ path: isArray ? `[${key}]` : `.${key}`, value: value[key] }));
+}
+
+function copyShallow(value: any): any {
+    if (Array.isArray(value)) {
+        return value.slice();
+    }
+
+    return isPlainObject(value) ? { ...value } : value;
+}
+
 function subscribeOnUpdates(config: Configuration, vueInstance: Pick<Vue, "$emit">): void {
     config.optionChangedFunc = (args: any) => {
         let optionName = args.name;
@@ -193,11 +736,37 @@ function subscribeOnUpdates(config: Configuration, vueInstance: Pick<Vue, "$emit
         } else if (args.fullName !== args.name) {
             optionValue = args.component.option(optionName);
         }
-        if (!isEqual(args.value, args.previousValue)) {
+        if (!isEqual(args.value, args.previousValue, globalConfig().comparisonDepth)) {
             vueInstance.$emit("update:" + optionName, optionValue);
         }
     };
+    config.rollbackFunc = (name: string, value: any) => {
+        vueInstance.$emit("update:" + name, value);
+    };
+}
+
+function notifyTrafficListeners(traffic: IOptionTraffic): void {
+    trafficListeners.slice().forEach((listener: TrafficListener) => listener(traffic));
+}
+
+// returns a function that stops observing
+function observeOptionTraffic(listener: TrafficListener): () => void {
+    trafficListeners.push(listener);
+
+    return () => {
+        const index = trafficListeners.indexOf(listener);
+        if (index !== -1) {
+            trafficListeners.splice(index, 1);
+        }
+    };
 }
 
 export default Configuration;
-export { bindOptionWatchers, subscribeOnUpdates, UpdateFunc, ExpectedChild };
+export {
+    bindOptionWatchers,
+    subscribeOnUpdates,
+    observeOptionTraffic,
+    UpdateFunc,
+    ExpectedChild,
+    IOptionTraffic
+};
@@ -0,0 +1,142 @@
+import Vue from "vue";
+import { DxComponent, IWidgetComponent } from "./component";
+import { DxConfiguration, IConfigurationComponent } from "./configuration-component";
+import { setGlobalDefaults } from "./defaults";
+import { DxDefaults } from "./defaults-component";
+
+const Widget = {
+    option: jest.fn(),
+    resetOption: jest.fn(),
+    dispose: jest.fn(),
+    on: jest.fn(),
+    off: jest.fn(),
+    beginUpdate: jest.fn(),
+    endUpdate: jest.fn()
+};
+
+const WidgetClass = jest.fn(() => Widget);
+
+const TestComponent = Vue.extend({
+    extends: DxComponent,
+    name: "DxTest",
+    props: ["prop1", "prop2"],
+    beforeCreate() {
+        (this as any as IWidgetComponent).$_WidgetClass = WidgetClass;
+    }
+});
+
+const Nested = Vue.extend({
+    extends: DxConfiguration,
+    props: {
+        prop1: Number,
+        prop2: String
+    }
+});
+(Nested as any as IConfigurationComponent).$_optionName = "nestedOption";
+
+function skipIntegrationOptions(options: Record<string, any>): Record<string, any> {
+    const result = { ...options };
+    delete result.integrationOptions;
+    delete result.onInitializing;
+    return result;
+}
+
+let vm: Vue | undefined;
+
+function mount(template: string, data: Record<string, any>) {
+    return vm = new Vue({
+        template,
+        components: {
+            DxTest: TestComponent,
+            DxDefaults,
+            Nested
+        },
+        data
+    }).$mount();
+}
+
+beforeEach(() => {
+    jest.clearAllMocks();
+});
+
+afterEach(() => {
+    if (vm) {
+        vm.$destroy();
+        vm = undefined;
+    }
+    setGlobalDefaults({});
+});
+
+describe("defaults provider", () => {
+
+    it("passes the nearest provider's defaults to the widget", () => {
+        setGlobalDefaults({ DxTest: { prop1: 1, prop2: "global" } });
+
+        mount(
+            `<dx-defaults :options="outer">` +
+            `  <dx-defaults :options="inner">` +
+            `    <dx-test/>` +
+            `  </dx-defaults>` +
+            `</dx-defaults>`,
+            {
+                outer: { DxTest: { prop2: "outer", nestedOption: { prop1: 2, prop2: "outer" } } },
+                inner: { DxTest: { nestedOption: { prop2: "inner" } } }
+            }
+        );
+
+        expect(skipIntegrationOptions(WidgetClass.mock.calls[0][1])).toEqual({
+            prop1: 1,
+            prop2: "outer",
+            nestedOption: { prop1: 2, prop2: "inner" }
+        });
+    });
+
+    it("renders a single element without a wrapper", () => {
+        mount(`<div><dx-defaults :options="{}"> <dx-test id="a"/> </dx-defaults></div>`, {});
+
+        expect(vm!.$el.outerHTML).toBe(`<div><div id="a"></div></div>`);
+    });
+
+    it("wraps several elements in a <div> element", () => {
+        mount(`<div><dx-defaults :options="{}"><dx-test id="a"/><dx-test id="b"/></dx-defaults></div>`, {});
+
+        expect(vm!.$el.outerHTML).toBe(`<div><div><div id="a"></div><div id="b"></div></div></div>`);
+    });
+
+    it("passes changed defaults to the widget", (done) => {
+        mount(
+            `<dx-defaults :options="defaults">` +
+            `  <dx-test :prop1="1">` +
+            `    <nested :prop1="2"/>` +
+            `  </dx-test>` +
+            `</dx-defaults>`,
+            {
+                defaults: { DxTest: { prop1: 10, prop2: "a", nestedOption: { prop2: "b" } } }
+            }
+        );
+
+        vm!.$data.defaults.DxTest.prop1 = 20;
+        vm!.$data.defaults.DxTest.prop2 = "c";
+        vm!.$data.defaults.DxTest.nestedOption.prop2 = "d";
+        Vue.nextTick(() => {
+            expect(Widget.option).toHaveBeenCalledTimes(2);
+            expect(Widget.option).toHaveBeenCalledWith("prop2", "c");
+            expect(Widget.option).toHaveBeenCalledWith("nestedOption", { prop1: 2, prop2: "d" });
+            done();
+        });
+    });
+
+    it("resets an option removed from the defaults", (done) => {
+        mount(
+            `<dx-defaults :options="defaults"><dx-test/></dx-defaults>`,
+            { defaults: { DxTest: { prop2: "a" } } }
+        );
+
+        vm!.$data.defaults = {};
+        Vue.nextTick(() => {
+            expect(Widget.resetOption).toHaveBeenCalledTimes(1);
+            expect(Widget.resetOption).toHaveBeenCalledWith("prop2");
+            done();
+        });
+    });
+});
@@ -0,0 +1,76 @@
+import * as VueType from "vue";
+import IVue, { VNode, VueConstructor } from "vue";
+
+const Vue = VueType.default || VueType;
+
+import { ComponentDefaults, getGlobalDefaults, mergeDefaults } from "./defaults";
+
+const DEFAULTS_PROVIDER_KEY = "$_dxDefaultsProvider";
+
+interface IDefaultsProvider {
+    getDefaults(componentName: string): Record<string, any> | undefined;
+}
+
+interface IDefaultsComponent extends IVue, IDefaultsProvider {
+    options: ComponentDefaults | undefined;
+    $_parentProvider: IDefaultsProvider | null;
+}
+
+// whitespace between elements and comments, e.g. of elements hidden by 'v-if', aren't the content
+function isContentNode(node: VNode): boolean {
+    return !!node.tag || (!node.isComment && !!node.text && !!node.text.trim());
+}
+
+// the options of the nearest provider override the options of outer providers and the global defaults
+const DxDefaults: VueConstructor<IDefaultsComponent> = Vue.extend({
+
+    name: "DxDefaults",
+
+    props: {
+        options: Object
+    },
+
+    inject: {
+        $_parentProvider: {
+            from: DEFAULTS_PROVIDER_KEY,
+            default: null
+        }
+    },
+
+    provide(): Record<string, any> {
+        return {
+            [DEFAULTS_PROVIDER_KEY]: this
+        };
+    },
+
+    // a single element is rendered as is; other content is wrapped in a <div> element
+    render(createElement: (...args) => VNode): VNode {
+        const children = (this.$slots.default || []).filter(isContentNode);
+        if (children.length === 1 && children[0].tag) {
+            return children[0];
+        }
+
+        return createElement("div", this.$slots.default);
+    },
+
+    methods: {
+        getDefaults(componentName: string): Record<string, any> | undefined {
+            const parent = (this as IDefaultsComponent).$_parentProvider;
+            const parentDefaults = parent ? parent.getDefaults(componentName) : getGlobalDefaults(componentName);
+
+            const options = (this as IDefaultsComponent).options;
+            const ownDefaults = options && options[componentName];
+            if (!ownDefaults) {
+                return parentDefaults;
+            }
+
+            return parentDefaults ? mergeDefaults(parentDefaults, ownDefaults) : ownDefaults;
+        }
+    }
+});
+
+export {
+    DEFAULTS_PROVIDER_KEY,
+    DxDefaults,
+    IDefaultsProvider
+};
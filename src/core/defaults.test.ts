@@ -0,0 +1,132 @@
+import Vue from "vue";
+import { DxComponent, IWidgetComponent } from "./component";
+import { DxConfiguration, IConfigurationComponent } from "./configuration-component";
+import { mergeDefaults, setGlobalDefaults } from "./defaults";
+
+const Widget = {
+    option: jest.fn(),
+    dispose: jest.fn(),
+    on: jest.fn(),
+    off: jest.fn(),
+    beginUpdate: jest.fn(),
+    endUpdate: jest.fn()
+};
+
+const WidgetClass = jest.fn(() => Widget);
+
+const TestComponent = Vue.extend({
+    extends: DxComponent,
+    name: "DxTest",
+    props: ["prop1", "prop2"],
+    beforeCreate() {
+        (this as any as IWidgetComponent).$_WidgetClass = WidgetClass;
+    }
+});
+
+const Nested = Vue.extend({
+    extends: DxConfiguration,
+    props: {
+        prop1: Number,
+        prop2: String
+    }
+});
+(Nested as any as IConfigurationComponent).$_optionName = "nestedOption";
+
+function skipIntegrationOptions(options: Record<string, any>): Record<string, any> {
+    const result = { ...options };
+    delete result.integrationOptions;
+    delete result.onInitializing;
+    return result;
+}
+
+let vm: Vue | undefined;
+
+function mount() {
+    return vm = new Vue({
+        template:
+            `<dx-test :prop1="prop1">` +
+            `  <nested :prop1="nestedProp"/>` +
+            `</dx-test>`,
+        components: {
+            DxTest: TestComponent,
+            Nested
+        },
+        data: {
+            prop1: 1,
+            nestedProp: 2
+        }
+    }).$mount();
+}
+
+beforeEach(() => {
+    jest.clearAllMocks();
+});
+
+afterEach(() => {
+    if (vm) {
+        vm.$destroy();
+        vm = undefined;
+    }
+    setGlobalDefaults({});
+});
+
+describe("default options", () => {
+
+    it("are passed to the widget beneath the component's options", () => {
+        setGlobalDefaults({
+            DxTest: { prop1: 10, prop2: "default", nestedOption: { prop1: 20, prop2: "nested default" } }
+        });
+
+        mount();
+
+        expect(skipIntegrationOptions(WidgetClass.mock.calls[0][1])).toEqual({
+            prop1: 1,
+            prop2: "default",
+            nestedOption: { prop1: 2, prop2: "nested default" }
+        });
+    });
+
+    it("are not applied to other components", () => {
+        setGlobalDefaults({ DxOther: { prop2: "default" } });
+
+        mount();
+
+        expect(skipIntegrationOptions(WidgetClass.mock.calls[0][1])).toEqual({
+            prop1: 1,
+            nestedOption: { prop1: 2 }
+        });
+    });
+
+    it("are restored when an option is unset", (done) => {
+        setGlobalDefaults({ DxTest: { prop1: 10, nestedOption: { prop1: 20 } } });
+        mount();
+
+        vm!.$data.prop1 = undefined;
+        vm!.$data.nestedProp = undefined;
+        Vue.nextTick(() => {
+            expect(Widget.option).toHaveBeenCalledTimes(2);
+            expect(Widget.option).toHaveBeenCalledWith("prop1", 10);
+            expect(Widget.option).toHaveBeenCalledWith("nestedOption.prop1", 20);
+            done();
+        });
+    });
+});
+
+describe("mergeDefaults", () => {
+
+    it("keeps default nested options that are not set", () => {
+        expect(mergeDefaults(
+            { prop1: 1, nested: { prop1: 2, prop2: 3 } },
+            { nested: { prop2: 4 } }
+        )).toEqual({ prop1: 1, nested: { prop1: 2, prop2: 4 } });
+    });
+
+    it("copies default plain objects", () => {
+        const defaults = { nested: { prop1: 1 } };
+
+        const result = mergeDefaults(defaults, {});
+        defaults.nested.prop1 = 2;
+
+        expect(result.nested).toEqual({ prop1: 1 });
+    });
+});
@@ -0,0 +1,36 @@
+import { isPlainObject } from "./helpers";
+
+// default options of generated components by component name, e.g. { DxDataGrid: { showBorders: true } }
+type ComponentDefaults = Record<string, Record<string, any>>;
+
+let globalDefaults: ComponentDefaults = {};
+
+function setGlobalDefaults(defaults: ComponentDefaults): void {
+    globalDefaults = { ...defaults };
+}
+
+function getGlobalDefaults(componentName: string | undefined): Record<string, any> | undefined {
+    return componentName ? globalDefaults[componentName] : undefined;
+}
+
+// plain objects are merged, so a default nested option is kept unless the option is set;
+// plain objects of the defaults are copied, so changing the defaults doesn't change the result
+function mergeDefaults(defaults: Record<string, any>, values: Record<string, any>): Record<string, any> {
+    const result = { ...values };
+    Object.keys(defaults).forEach((name: string) => {
+        if (!values.hasOwnProperty(name)) {
+            result[name] = isPlainObject(defaults[name]) ? mergeDefaults(defaults[name], {}) : defaults[name];
+        } else if (isPlainObject(defaults[name]) && isPlainObject(values[name])) {
+            result[name] = mergeDefaults(defaults[name], values[name]);
+        }
+    });
+
+    return result;
+}
+
+export {
+    ComponentDefaults,
+    getGlobalDefaults,
+    mergeDefaults,
+    setGlobalDefaults
+};
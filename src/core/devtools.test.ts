@@ -0,0 +1,170 @@
+import Vue from "vue";
+import { DxComponent, IWidgetComponent } from "./component";
+import { DxConfiguration, IConfigurationComponent } from "./configuration-component";
+import { IDevtoolsApi, setupDevtools } from "./devtools";
+
+const eventHandlers: { [index: string]: (e?: any) => void } = {};
+const Widget = {
+    option: jest.fn(),
+    dispose: jest.fn(),
+    on: (event: string, handler: (e: any) => void) => {
+        eventHandlers[event] = handler;
+    },
+    off: jest.fn(),
+    fire: (event: string, args: any) => {
+        eventHandlers[event](args);
+    },
+    beginUpdate: jest.fn(),
+    endUpdate: jest.fn()
+};
+
+function createWidget(_, options) {
+    if (options.onInitializing) {
+        options.onInitializing.call(Widget);
+    }
+    return Widget;
+}
+const WidgetClass = jest.fn(createWidget);
+
+const TestComponent = Vue.extend({
+    extends: DxComponent,
+    props: ["prop1"],
+    beforeCreate() {
+        (this as any as IWidgetComponent).$_WidgetClass = WidgetClass;
+    }
+});
+
+const Nested = Vue.extend({
+    extends: DxConfiguration,
+    props: {
+        prop1: Number,
+        prop2: String
+    }
+});
+(Nested as any as IConfigurationComponent).$_optionName = "nestedOption";
+
+let vm: Vue;
+let api: IDevtoolsApi;
+let disposeDevtools: () => void;
+let getInspectorTree: (payload: any) => void;
+let getInspectorState: (payload: any) => void;
+
+beforeEach(() => {
+    jest.clearAllMocks();
+
+    vm = new Vue({
+        template:
+            `<test-component id="inspected" :prop1="value">` +
+            `  <nested :prop1="1" :prop2="nestedValue"/>` +
+            `</test-component>`,
+        components: {
+            TestComponent,
+            Nested
+        },
+        data: {
+            value: 1,
+            nestedValue: "a"
+        }
+    }).$mount();
+
+    api = {
+        on: {
+            getInspectorTree: (handler) => getInspectorTree = handler,
+            getInspectorState: (handler) => getInspectorState = handler
+        },
+        addInspector: jest.fn(),
+        sendInspectorTree: jest.fn(),
+        sendInspectorState: jest.fn(),
+        addTimelineLayer: jest.fn(),
+        addTimelineEvent: jest.fn(),
+        now: () => 100
+    };
+    disposeDevtools = setupDevtools(vm, (descriptor, setup) => {
+        expect(descriptor.app).toBe(vm);
+        setup(api);
+    });
+});
+
+afterEach(() => {
+    disposeDevtools();
+    vm.$destroy();
+    jest.useRealTimers();
+});
+
+describe("devtools", () => {
+
+    it("shows the configuration tree", () => {
+        const payload = { inspectorId: "devextreme-vue", filter: "#inspected", rootNodes: [] };
+        const component: any = vm.$children[0];
+
+        getInspectorTree(payload);
+
+        expect(payload.rootNodes).toHaveLength(1);
+        expect(payload.rootNodes[0]).toEqual({
+            id: String(component._uid),
+            label: expect.stringMatching(/#inspected$/),
+            children: [{
+                id: `${component._uid}/nestedOption`,
+                label: "nestedOption",
+                children: []
+            }]
+        });
+    });
+
+    it("shows the configuration state", () => {
+        const payload: any = { inspectorId: "devextreme-vue", nodeId: `${(vm.$children[0] as any)._uid}/nestedOption` };
+
+        getInspectorState(payload);
+
+        expect(payload.state).toEqual({
+            "configuration": [
+                { key: "name", value: "nestedOption" },
+                { key: "fullPath", value: "nestedOption" },
+                { key: "collectionItemIndex", value: -1 }
+            ],
+            "initial values": [{ key: "prop1", value: 1 }, { key: "prop2", value: "a" }],
+            "watched options": [{ key: "options", value: ["prop1", "prop2"] }]
+        });
+    });
+
+    it("adds timeline events for the option traffic", (done) => {
+        jest.useFakeTimers();
+        vm.$data.nestedValue = "b";
+        Vue.nextTick(() => {
+            Widget.fire("optionChanged", { name: "prop1", fullName: "prop1", value: 2 });
+
+            expect(api.addTimelineEvent).toHaveBeenCalledTimes(2);
+            expect((api.addTimelineEvent as jest.Mock).mock.calls[0][0]).toMatchObject({
+                layerId: "devextreme-vue:options",
+                event: {
+                    time: 100,
+                    title: "nestedOption.prop2",
+                    subtitle: "component → widget",
+                    data: { option: "nestedOption.prop2", value: "b" }
+                }
+            });
+            expect((api.addTimelineEvent as jest.Mock).mock.calls[1][0].event).toMatchObject({
+                title: "prop1",
+                subtitle: "widget → component",
+                data: { value: 2 }
+            });
+            expect(api.sendInspectorState).not.toHaveBeenCalled();
+
+            jest.runAllTimers();
+            expect(api.sendInspectorTree).toHaveBeenCalledTimes(1);
+            expect(api.sendInspectorState).toHaveBeenCalledTimes(1);
+            done();
+        });
+    });
+
+    it("stops reporting the option traffic when disposed", () => {
+        jest.useFakeTimers();
+
+        disposeDevtools();
+        Widget.fire("optionChanged", { name: "prop1", fullName: "prop1", value: 2 });
+        jest.runAllTimers();
+
+        expect(api.addTimelineEvent).not.toHaveBeenCalled();
+        expect(api.sendInspectorTree).not.toHaveBeenCalled();
+    });
+});
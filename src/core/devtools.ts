@@ -0,0 +1,200 @@
+import IVue from "vue";
+
+import Configuration, { IOptionTraffic, observeOptionTraffic } from "./configuration";
+import { getWidgets, IWidgetInfo } from "./widget-registry";
+
+const INSPECTOR_ID = "devextreme-vue";
+const TIMELINE_LAYER_ID = "devextreme-vue:options";
+const TIMELINE_LAYER_COLOR = 0xff7200;
+// the inspector is refreshed once for the option traffic within this time, in milliseconds
+const INSPECTOR_REFRESH_DELAY = 100;
+
+// the parts of the @vue/devtools-api plugin API the inspector uses
+interface IInspectorNode {
+    id: string;
+    label: string;
+    children: IInspectorNode[];
+}
+
+interface IInspectorStateItem {
+    key: string;
+    value: any;
+}
+
+interface IDevtoolsApi {
+    on: {
+        getInspectorTree(handler: (payload: {
+            inspectorId: string,
+            filter: string,
+            rootNodes: IInspectorNode[]
+        }) => void);
+        getInspectorState(handler: (payload: {
+            inspectorId: string,
+            nodeId: string,
+            state: Record<string, IInspectorStateItem[]>
+        }) => void);
+    };
+    addInspector(options: { id: string, label: string, treeFilterPlaceholder?: string }): void;
+    sendInspectorTree(inspectorId: string): void;
+    sendInspectorState(inspectorId: string): void;
+    addTimelineLayer(options: { id: string, label: string, color: number }): void;
+    addTimelineEvent(options: {
+        layerId: string,
+        event: { time: number, title: string, subtitle: string, data: Record<string, any> }
+    }): void;
+    now(): number;
+}
+
+type SetupDevtoolsPlugin = (
+    descriptor: { id: string, label: string, packageName: string, app: IVue },
+    setup: (api: IDevtoolsApi) => void
+) => void;
+
+function getWidgetLabel(widget: IWidgetInfo): string {
+    const id = widget.element.id;
+    return id ? `${widget.widgetName}#${id}` : widget.widgetName;
+}
+
+function getWidgetId(widget: IWidgetInfo): string {
+    return String((widget.component as any)._uid);
+}
+
+function getNodeId(widget: IWidgetInfo, config: Configuration): string {
+    const widgetId = getWidgetId(widget);
+    const path = config.absolutePath;
+    return path ? `${widgetId}/${path}` : widgetId;
+}
+
+function createNode(widget: IWidgetInfo, config: Configuration): IInspectorNode {
+    return {
+        id: getNodeId(widget, config),
+        label: config.fullPath || getWidgetLabel(widget),
+        children: config.nested.map((nested: Configuration) => createNode(widget, nested))
+    };
+}
+
+function findConfig(widget: IWidgetInfo, config: Configuration, nodeId: string): Configuration | undefined {
+    if (getNodeId(widget, config) === nodeId) {
+        return config;
+    }
+
+    for (const nested of config.nested) {
+        const result = findConfig(widget, nested, nodeId);
+        if (result) {
+            return result;
+        }
+    }
+
+    return undefined;
+}
+
+function getConfigState(config: Configuration): Record<string, IInspectorStateItem[]> {
+    const initialValues = config.initialValues;
+    return {
+        "configuration": [
+            { key: "name", value: config.name },
+            { key: "fullPath", value: config.fullPath },
+            { key: "collectionItemIndex", value: config.collectionItemIndex }
+        ],
+        "initial values": Object.keys(initialValues).map((key: string) => ({ key, value: initialValues[key] })),
+        "watched options": [
+            // nested configurations are initialized by their components, so the list is empty until then
+            { key: "options", value: config.options ? config.getOptionsToWatch() : [] }
+        ]
+    };
+}
+
+function addTrafficEvent(api: IDevtoolsApi, traffic: IOptionTraffic): void {
+    const widget = getWidgets().filter((w: IWidgetInfo) => w.config === traffic.rootConfig)[0];
+    const direction = traffic.type === "update" ? "component → widget" : "widget → component";
+
+    api.addTimelineEvent({
+        layerId: TIMELINE_LAYER_ID,
+        event: {
+            time: api.now(),
+            title: traffic.fullName,
+            subtitle: direction,
+            data: {
+                widget: widget ? getWidgetLabel(widget) : undefined,
+                option: traffic.fullName,
+                value: traffic.value,
+                direction
+            }
+        }
+    });
+}
+
+// the 'setupDevtoolsPlugin' function of @vue/devtools-api is passed by the application,
+// so the package doesn't depend on it. Returns a function that stops reporting the option traffic.
+function setupDevtools(app: IVue, setupDevtoolsPlugin: SetupDevtoolsPlugin): () => void {
+    let isDisposed = false;
+    let stopObserving: (() => void) | undefined;
+    let refreshTimer: any;
+
+    setupDevtoolsPlugin({
+        id: INSPECTOR_ID,
+        label: "DevExtreme",
+        packageName: "devextreme-vue",
+        app
+    }, (api: IDevtoolsApi) => {
+        if (isDisposed) { return; }
+
+        api.addInspector({
+            id: INSPECTOR_ID,
+            label: "DevExtreme",
+            treeFilterPlaceholder: "Search widgets"
+        });
+        api.addTimelineLayer({
+            id: TIMELINE_LAYER_ID,
+            label: "DevExtreme options",
+            color: TIMELINE_LAYER_COLOR
+        });
+
+        api.on.getInspectorTree((payload) => {
+            if (payload.inspectorId !== INSPECTOR_ID) { return; }
+
+            const filter = (payload.filter || "").toLowerCase();
+            payload.rootNodes = getWidgets()
+                .filter((w: IWidgetInfo) => getWidgetLabel(w).toLowerCase().indexOf(filter) !== -1)
+                .map((w: IWidgetInfo) => createNode(w, w.config));
+        });
+
+        api.on.getInspectorState((payload) => {
+            if (payload.inspectorId !== INSPECTOR_ID) { return; }
+
+            const widgetId = payload.nodeId.split("/")[0];
+            const widget = getWidgets().filter((w: IWidgetInfo) => getWidgetId(w) === widgetId)[0];
+            const config = widget && findConfig(widget, widget.config, payload.nodeId);
+            if (config) {
+                payload.state = getConfigState(config);
+            }
+        });
+
+        stopObserving = observeOptionTraffic((traffic: IOptionTraffic) => {
+            addTrafficEvent(api, traffic);
+            if (refreshTimer !== undefined) { return; }
+
+            refreshTimer = setTimeout(() => {
+                refreshTimer = undefined;
+                api.sendInspectorTree(INSPECTOR_ID);
+                api.sendInspectorState(INSPECTOR_ID);
+            }, INSPECTOR_REFRESH_DELAY);
+        });
+    });
+
+    return () => {
+        isDisposed = true;
+        clearTimeout(refreshTimer);
+        refreshTimer = undefined;
+        if (stopObserving) {
+            stopObserving();
+            stopObserving = undefined;
+        }
+    };
+}
+
+export {
+    IDevtoolsApi,
+    SetupDevtoolsPlugin,
+    setupDevtools
+};
@@ -0,0 +1,80 @@
+import { VNode } from "vue";
+
+function splitClasses(classes: string | null | undefined): string[] {
+    return classes ? classes.split(/\s+/).filter((c) => !!c) : [];
+}
+
+function getForeignClasses(classes: string | null | undefined, ownClasses: string | null | undefined): string[] {
+    const own = splitClasses(ownClasses);
+    return splitClasses(classes).filter((c) => own.indexOf(c) === -1);
+}
+
+function stringifyClass(value: any): string {
+    if (Array.isArray(value)) {
+        return value.map(stringifyClass).filter((c) => !!c).join(" ");
+    }
+
+    if (value && typeof value === "object") {
+        return Object.keys(value).filter((name) => !!value[name]).join(" ");
+    }
+
+    return typeof value === "string" ? value : "";
+}
+
+// the classes Vue renders for a component's root element: the static classes and then the bound ones
+// of the component's vnode and of the vnodes of the components it is the root element of
+function getVnodeClasses(vnode: VNode | undefined): string {
+    const staticClasses: any[] = [];
+    const boundClasses: any[] = [];
+    for (let current = vnode; current; current = current.parent) {
+        if (current.data) {
+            staticClasses.push(current.data.staticClass);
+            boundClasses.push(current.data.class);
+        }
+    }
+
+    return [stringifyClass(staticClasses), stringifyClass(boundClasses)].filter((c) => !!c).join(" ");
+}
+
+// Vue 2 rewrites the whole 'class' attribute of a component's root element when bound classes change,
+// so the classes a widget has added are put back after such a rewrite. Returns a function that stops it.
+function preserveForeignClasses(element: Element, getVueClasses: () => string): () => void {
+    if (typeof MutationObserver === "undefined") {
+        return () => undefined;
+    }
+
+    let vueClasses = getVueClasses();
+    const observer = new MutationObserver((records: MutationRecord[]) => {
+        const currentVueClasses = getVueClasses();
+        if (currentVueClasses === vueClasses) {
+            return;
+        }
+
+        records.forEach((record: MutationRecord, index: number) => {
+            const value = index < records.length - 1
+                ? records[index + 1].oldValue
+                : element.getAttribute("class");
+            if (value !== currentVueClasses || currentVueClasses === vueClasses) {
+                return;
+            }
+
+            const foreignClasses = getForeignClasses(record.oldValue, vueClasses);
+            vueClasses = currentVueClasses;
+            foreignClasses.forEach((c) => element.classList.add(c));
+        });
+    });
+
+    observer.observe(element, {
+        attributes: true,
+        attributeFilter: ["class"],
+        attributeOldValue: true
+    });
+
+    return () => observer.disconnect();
+}
+
+export {
+    getForeignClasses,
+    getVnodeClasses,
+    preserveForeignClasses
+};
@@ -25,6 +25,9 @@ const DxExtensionComponent: VueConstructor = BaseComponent.extend({
     methods: {
         attachTo(element: any) {
             this.$_createWidget(element);
+            if (this.$_instance) {
+                this.$_notifyReady(element);
+            }
         }
     }
 });
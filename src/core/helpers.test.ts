@@ -41,4 +41,30 @@ describe("isEqual", () => {
         const testDate2 = new Date(2018, 9, 9);
         expect(isEqual(testDate1, testDate2)).toBe(true);
     });
+
+    it("Array", () => {
+        expect(isEqual([1, "a"], [1, "a"])).toBe(true);
+        expect(isEqual([1, "a"], [1, "b"])).toBe(false);
+        expect(isEqual([1], [1, 2])).toBe(false);
+    });
+
+    it("Plain object", () => {
+        expect(isEqual({ a: 1, b: [new Date(2018, 9, 9)] }, { b: [new Date(2018, 9, 9)], a: 1 })).toBe(true);
+        expect(isEqual({ a: 1 }, { a: 1, b: 1 })).toBe(false);
+        expect(isEqual({ a: 1, b: undefined }, { a: 1, c: undefined })).toBe(false);
+    });
+
+    it("Class instance", () => {
+        class Item {
+            public value = 1;
+        }
+
+        expect(isEqual(new Item(), new Item())).toBe(false);
+    });
+
+    it("Depth limit", () => {
+        expect(isEqual([[1]], [[1]], 2)).toBe(true);
+        expect(isEqual([[1]], [[1]], 1)).toBe(false);
+        expect(isEqual([], [], 0)).toBe(false);
+    });
 });
@@ -14,13 +14,45 @@ export function toComparable(value: any): any {
     return value instanceof Date ? value.getTime() : value;
 }
 
-export function isEqual(value1, value2) {
+// the path can contain nested option names and collection item indexes, e.g. "columns[0].width"
+export function getOptionValue(options: Record<string, any>, path: string): any {
+    const names = path.split(/[.[\]]/).filter((name: string) => !!name);
+    let value: any = options;
+    for (let i = 0; i < names.length && value !== undefined && value !== null; i++) {
+        value = value[names[i]];
+    }
+
+    return value;
+}
+
+export function isPlainObject(value: any): boolean {
+    if (Object.prototype.toString.call(value) !== "[object Object]") {
+        return false;
+    }
+
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
+
+// dates are compared by time, arrays and plain objects - by their items up to the given nesting depth
+export function isEqual(value1, value2, depth: number = 3): boolean {
     if (toComparable(value1) === toComparable(value2)) {
         return true;
     }
 
+    if (depth <= 0) {
+        return false;
+    }
+
     if (Array.isArray(value1) && Array.isArray(value2)) {
-        return value1.length === 0 && value2.length === 0;
+        return value1.length === value2.length
+            && value1.every((item, index) => isEqual(item, value2[index], depth - 1));
+    }
+
+    if (isPlainObject(value1) && isPlainObject(value2)) {
+        const keys = Object.keys(value1);
+        return keys.length === Object.keys(value2).length
+            && keys.every((key) => value2.hasOwnProperty(key) && isEqual(value1[key], value2[key], depth - 1));
     }
 
     return false;
@@ -0,0 +1,197 @@
+import Vue from "vue";
+import { DxComponent, IWidgetComponent } from "./component";
+import { DxLocalization } from "./localization";
+
+import { formatMessage, locale } from "devextreme/localization";
+import List from "devextreme/ui/list";
+
+const Widget = {
+    option: jest.fn(),
+    dispose: jest.fn(),
+    on: jest.fn(),
+    off: jest.fn(),
+    beginUpdate: jest.fn(),
+    endUpdate: jest.fn()
+};
+
+const WidgetClass = jest.fn(() => Widget);
+
+const TestComponent = Vue.extend({
+    extends: DxComponent,
+    beforeCreate() {
+        (this as any as IWidgetComponent).$_WidgetClass = WidgetClass;
+    }
+});
+
+const ListComponent = Vue.extend({
+    extends: DxComponent,
+    props: ["noDataText"],
+    beforeCreate() {
+        (this as any as IWidgetComponent).$_WidgetClass = List;
+    }
+});
+
+let vm: Vue | undefined;
+
+function getEmptyMessage(element: Element): string | null {
+    return element.querySelector(".dx-empty-message")!.textContent;
+}
+
+function createI18n() {
+    return new Vue({
+        data: {
+            locale: "en",
+            messages: {
+                en: { "dxTest-message": "Message", "nested": { "dxTest-message": "Nested message" } },
+                de: {
+                    "dxTest-message": "Nachricht",
+                    "dxCollectionWidget-noDataText": "Keine Daten",
+                    "nested": { "dxTest-message": "Verschachtelte Nachricht" }
+                }
+            }
+        },
+        methods: {
+            getLocaleMessage(name: string) {
+                return this.messages[name];
+            }
+        }
+    });
+}
+
+beforeEach(() => {
+    jest.clearAllMocks();
+});
+
+afterEach(() => {
+    if (vm) {
+        vm.$destroy();
+        vm = undefined;
+    }
+    DxLocalization.uninstall();
+    delete (Widget as any).repaint;
+    delete (Widget as any).render;
+    locale("en");
+});
+
+describe("localization", () => {
+
+    it("applies the i18n locale and messages", () => {
+        const i18n = createI18n();
+        i18n.locale = "de";
+
+        DxLocalization.install(Vue, { i18n });
+
+        expect(locale()).toBe("de");
+        expect(formatMessage("dxTest-message", [])).toBe("Nachricht");
+    });
+
+    it("takes messages by the path", () => {
+        DxLocalization.install(Vue, { i18n: createI18n(), messagesPath: "nested" });
+
+        expect(formatMessage("dxTest-message", [])).toBe("Nested message");
+    });
+
+    it("repaints widgets when the locale is changed", (done) => {
+        const repaint = (Widget as any).repaint = jest.fn();
+        const i18n = createI18n();
+        DxLocalization.install(Vue, { i18n });
+        vm = new TestComponent().$mount();
+        expect(repaint).not.toHaveBeenCalled();
+
+        i18n.locale = "de";
+        Vue.nextTick(() => {
+            expect(locale()).toBe("de");
+            expect(formatMessage("dxTest-message", [])).toBe("Nachricht");
+            expect(repaint).toHaveBeenCalled();
+            done();
+        });
+    });
+
+    it("redraws visualization widgets when the locale is changed", (done) => {
+        const render = (Widget as any).render = jest.fn();
+        const i18n = createI18n();
+        DxLocalization.install(Vue, { i18n });
+        vm = new TestComponent().$mount();
+
+        i18n.locale = "de";
+        Vue.nextTick(() => {
+            expect(render).toHaveBeenCalled();
+            done();
+        });
+    });
+
+    it("applies the localized default options to created widgets", (done) => {
+        const i18n = createI18n();
+        DxLocalization.install(Vue, { i18n });
+        vm = new ListComponent().$mount();
+        expect(getEmptyMessage(vm.$el)).toBe("No data to display");
+
+        i18n.locale = "de";
+        Vue.nextTick(() => {
+            expect(getEmptyMessage(vm!.$el)).toBe("Keine Daten");
+            done();
+        });
+    });
+
+    it("keeps the options set on created widgets", (done) => {
+        const i18n = createI18n();
+        DxLocalization.install(Vue, { i18n });
+        vm = new ListComponent({ propsData: { noDataText: "Empty" } }).$mount();
+
+        i18n.locale = "de";
+        Vue.nextTick(() => {
+            expect(getEmptyMessage(vm!.$el)).toBe("Empty");
+            done();
+        });
+    });
+
+    it("keeps the options set to the text of a message", (done) => {
+        const i18n = createI18n();
+        DxLocalization.install(Vue, { i18n });
+        vm = new ListComponent({ propsData: { noDataText: "No data to display" } }).$mount();
+
+        i18n.locale = "de";
+        Vue.nextTick(() => {
+            expect(getEmptyMessage(vm!.$el)).toBe("No data to display");
+            done();
+        });
+    });
+
+    it("doesn't emit update events for the localized default options", (done) => {
+        const i18n = createI18n();
+        DxLocalization.install(Vue, { i18n });
+        vm = new ListComponent().$mount();
+        const update = jest.fn();
+        vm.$on("update:noDataText", update);
+
+        i18n.locale = "de";
+        Vue.nextTick(() => {
+            expect(getEmptyMessage(vm!.$el)).toBe("Keine Daten");
+            expect(update).not.toHaveBeenCalled();
+            done();
+        });
+    });
+
+    it("stops applying the locale when uninstalled", (done) => {
+        const i18n = createI18n();
+        DxLocalization.install(Vue, { i18n });
+
+        DxLocalization.uninstall();
+        i18n.locale = "de";
+        Vue.nextTick(() => {
+            expect(locale()).toBe("en");
+            done();
+        });
+    });
+
+    it("applies changed messages", (done) => {
+        const i18n = createI18n();
+        DxLocalization.install(Vue, { i18n });
+
+        i18n.messages.en["dxTest-message"] = "Changed message";
+        Vue.nextTick(() => {
+            expect(formatMessage("dxTest-message", [])).toBe("Changed message");
+            done();
+        });
+    });
+});
@@ -0,0 +1,141 @@
+import { PluginObject, VueConstructor } from "vue";
+
+import { formatMessage, loadMessages, locale } from "devextreme/localization";
+
+import { repaintWidgets } from "./component";
+import { getOptionValue, isPlainObject } from "./helpers";
+import { getWidgets, IWidgetInfo } from "./widget-registry";
+
+// the part of a vue-i18n instance the plugin uses
+interface II18n {
+    locale: string;
+    getLocaleMessage(locale: string): Record<string, any>;
+}
+
+interface ILocalizationOptions {
+    i18n: II18n;
+    // the path to DevExtreme messages within the locale messages, e.g. "devextreme";
+    // without it the top-level string messages are passed to DevExtreme
+    messagesPath?: string;
+}
+
+interface ILocalizationPlugin extends PluginObject<ILocalizationOptions> {
+    uninstall(): void;
+}
+
+let stopWatching: (() => void) | undefined;
+
+function getDevExtremeMessages(localeMessages: Record<string, any>, path?: string): Record<string, string> {
+    const messages = path ? getOptionValue(localeMessages, path) : localeMessages;
+    const result: Record<string, string> = {};
+    if (!messages) {
+        return result;
+    }
+
+    Object.keys(messages).forEach((key: string) => {
+        if (typeof messages[key] === "string") {
+            result[key] = messages[key];
+        }
+    });
+
+    return result;
+}
+
+// the values of options and their nested fields that aren't objects, e.g. { "pager.infoText": "Page {0}" }
+function getFieldValues(options: Record<string, any>, path: string, result: Record<string, any>): Record<string, any> {
+    Object.keys(options).forEach((name: string) => {
+        const fullName = path ? `${path}.${name}` : name;
+        const value = options[name];
+        if (isPlainObject(value)) {
+            getFieldValues(value, fullName, result);
+        } else if (typeof value !== "object" && typeof value !== "function") {
+            result[fullName] = value;
+        }
+    });
+
+    return result;
+}
+
+function getMessageKeysByText(keys: string[]): Record<string, string> {
+    const result: Record<string, string> = {};
+    keys.forEach((key: string) => {
+        const text = formatMessage(key, []);
+        if (text) {
+            result[text] = key;
+        }
+    });
+
+    return result;
+}
+
+// a widget gets localized messages within its default option values when it is created, so an option
+// that isn't configured and still has the previous text of a message gets the message's current text
+function updateLocalizedOptions(widget: IWidgetInfo, previousKeysByText: Record<string, string>): void {
+    const config = widget.config;
+    const configuredValues = config.getInitialValues() || {};
+    const values = getFieldValues(widget.instance.option() || {}, "", {});
+    Object.keys(values).forEach((name: string) => {
+        const value = values[name];
+        if (typeof value !== "string" || !previousKeysByText.hasOwnProperty(value)
+            || getOptionValue(configuredValues, name) !== undefined) {
+            return;
+        }
+
+        const text = formatMessage(previousKeysByText[value], []);
+        if (text !== value) {
+            config.updateDefaultValue(name, text);
+        }
+    });
+}
+
+// vue-i18n keeps the locale and messages in reactive data, so their changes are applied to DevExtreme,
+// the created widgets get the localized default options and are repainted with the new locale
+const DxLocalization: ILocalizationPlugin = {
+    install(vue: VueConstructor, options?: ILocalizationOptions): void {
+        if (!options || !options.i18n) {
+            throw new Error("The 'i18n' option is required.");
+        }
+
+        DxLocalization.uninstall();
+
+        const i18n = options.i18n;
+        const messagesPath = options.messagesPath;
+        const watcher = new vue();
+        watcher.$watch(
+            () => ({
+                locale: i18n.locale,
+                messages: getDevExtremeMessages(i18n.getLocaleMessage(i18n.locale), messagesPath)
+            }),
+            (value: { locale: string, messages: Record<string, string> }, oldValue: any) => {
+                const previousKeysByText = oldValue
+                    ? getMessageKeysByText(Object.keys({ ...oldValue.messages, ...value.messages }))
+                    : {};
+
+                loadMessages({ [value.locale]: value.messages });
+                locale(value.locale);
+
+                if (oldValue) {
+                    getWidgets().forEach((widget: IWidgetInfo) => updateLocalizedOptions(widget, previousKeysByText));
+                    repaintWidgets();
+                }
+            },
+            { immediate: true }
+        );
+
+        stopWatching = () => watcher.$destroy();
+    },
+
+    // stops applying the i18n locale and messages to DevExtreme
+    uninstall(): void {
+        if (stopWatching) {
+            stopWatching();
+            stopWatching = undefined;
+        }
+    }
+};
+
+export {
+    DxLocalization,
+    II18n,
+    ILocalizationOptions
+};
@@ -0,0 +1,101 @@
+import Vue from "vue";
+import { DxComponent, IWidgetComponent } from "./component";
+import globalConfig from "./config";
+import { setGlobalDefaults } from "./defaults";
+import { DxDefaults } from "./defaults-component";
+import { createPlugin } from "./plugin";
+
+import devextremeConfig from "devextreme/core/config";
+
+const Widget = {
+    option: jest.fn(),
+    dispose: jest.fn(),
+    on: jest.fn(),
+    off: jest.fn(),
+    beginUpdate: jest.fn(),
+    endUpdate: jest.fn()
+};
+
+const WidgetClass = jest.fn(() => Widget);
+
+const TestComponent = Vue.extend({
+    extends: DxComponent,
+    name: "DxTest",
+    props: ["prop1", "prop2"],
+    beforeCreate() {
+        (this as any as IWidgetComponent).$_WidgetClass = WidgetClass;
+    }
+});
+
+let vm: Vue | undefined;
+
+beforeEach(() => {
+    jest.clearAllMocks();
+});
+
+afterEach(() => {
+    if (vm) {
+        vm.$destroy();
+        vm = undefined;
+    }
+    setGlobalDefaults({});
+    globalConfig({ deepWatch: false });
+    devextremeConfig({ rtlEnabled: false });
+});
+
+describe("plugin", () => {
+
+    function createLocalVue() {
+        const LocalVue = Vue.extend();
+        (LocalVue as any).component = jest.fn();
+        return LocalVue;
+    }
+
+    it("registers the components", () => {
+        const LocalVue = createLocalVue();
+
+        createPlugin({ DxTest: TestComponent }).install(LocalVue);
+
+        expect((LocalVue as any).component).toHaveBeenCalledWith("DxTest", TestComponent);
+        expect((LocalVue as any).component).toHaveBeenCalledWith("DxDefaults", DxDefaults);
+    });
+
+    it("sets the default options", () => {
+        createPlugin({ DxTest: TestComponent }).install(createLocalVue(), {
+            defaults: { DxTest: { prop2: "default" } }
+        });
+
+        vm = new TestComponent({ propsData: { prop1: 1 } }).$mount();
+
+        expect(WidgetClass.mock.calls[0][1].prop1).toBe(1);
+        expect(WidgetClass.mock.calls[0][1].prop2).toBe("default");
+    });
+
+    it("sets the global and DevExtreme configs", () => {
+        createPlugin({ DxTest: TestComponent }).install(createLocalVue(), {
+            deepWatch: true,
+            rtlEnabled: true
+        });
+
+        expect(globalConfig().deepWatch).toBe(true);
+        expect(devextremeConfig().rtlEnabled).toBe(true);
+    });
+
+    it("loads the DevExtreme config on installation", () => {
+        const config = jest.fn();
+        const loadConfig = jest.fn(() => config);
+        jest.resetModules();
+        jest.doMock("devextreme/core/config", loadConfig);
+
+        try {
+            const plugin = require("./plugin").createPlugin({});
+            expect(loadConfig).not.toHaveBeenCalled();
+
+            plugin.install(createLocalVue(), { rtlEnabled: true });
+            expect(config).toHaveBeenCalledWith({ rtlEnabled: true });
+        } finally {
+            jest.dontMock("devextreme/core/config");
+            jest.resetModules();
+        }
+    });
+});
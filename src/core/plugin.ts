@@ -0,0 +1,56 @@
+import { PluginObject, VueConstructor } from "vue";
+
+import DevExtremeConfig from "devextreme/core/config";
+
+import globalConfig, { IOptions } from "./config";
+import { ComponentDefaults, setGlobalDefaults } from "./defaults";
+import { DxDefaults } from "./defaults-component";
+
+interface IPluginOptions extends Partial<IOptions> {
+    defaults?: ComponentDefaults;
+    // the other options are passed to the DevExtreme global config, e.g. rtlEnabled or defaultCurrency
+    [name: string]: any;
+}
+
+// the DevExtreme config is loaded by the plugin's installation only, so importing the plugin doesn't touch DevExtreme
+function getDevExtremeConfig(): typeof DevExtremeConfig {
+    return require("devextreme/core/config");
+}
+
+function createPlugin(components: Record<string, VueConstructor>): PluginObject<IPluginOptions> {
+    return {
+        install(vue: VueConstructor, options?: IPluginOptions): void {
+            Object.keys(components).forEach((name: string) => vue.component(name, components[name]));
+            vue.component("DxDefaults", DxDefaults);
+
+            if (!options) { return; }
+
+            if (options.defaults) {
+                setGlobalDefaults(options.defaults);
+            }
+
+            const ownOptionNames = Object.keys(globalConfig());
+            const ownOptions: Partial<IOptions> = {};
+            const devextremeOptions: Record<string, any> = {};
+            Object.keys(options).forEach((name: string) => {
+                if (name === "defaults") { return; }
+
+                if (ownOptionNames.indexOf(name) !== -1) {
+                    ownOptions[name] = options[name];
+                } else {
+                    devextremeOptions[name] = options[name];
+                }
+            });
+
+            globalConfig(ownOptions);
+            if (Object.keys(devextremeOptions).length) {
+                getDevExtremeConfig()(devextremeOptions);
+            }
+        }
+    };
+}
+
+export {
+    createPlugin,
+    IPluginOptions
+};
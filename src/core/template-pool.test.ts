@@ -0,0 +1,43 @@
+import Vue from "vue";
+import TemplatePool from "./template-pool";
+
+describe("TemplatePool", () => {
+
+    it("takes the instance released for the key", () => {
+        const pool = new TemplatePool();
+        const first = new Vue();
+        const second = new Vue();
+        pool.release(first, 1);
+        pool.release(second, 2);
+
+        expect(pool.take(1)).toBe(first);
+        expect(pool.take(1)).toBe(second);
+        expect(pool.take(1)).toBeUndefined();
+    });
+
+    it("destroys instances released above the limit", () => {
+        const pool = new TemplatePool(1);
+        const first = new Vue();
+        const second = new Vue();
+        const destroySpy = jest.spyOn(second, "$destroy");
+
+        pool.release(first, undefined);
+        pool.release(second, undefined);
+
+        expect(destroySpy).toHaveBeenCalledTimes(1);
+        expect(pool.take(undefined)).toBe(first);
+        expect(pool.take(undefined)).toBeUndefined();
+    });
+
+    it("destroys the released instances on clear", () => {
+        const pool = new TemplatePool();
+        const vm = new Vue();
+        const destroySpy = jest.spyOn(vm, "$destroy");
+        pool.release(vm, undefined);
+
+        pool.clear();
+
+        expect(destroySpy).toHaveBeenCalledTimes(1);
+        expect(pool.take(undefined)).toBeUndefined();
+    });
+});
@@ -0,0 +1,54 @@
+import IVue from "vue";
+
+interface IPooledInstance {
+    vm: IVue;
+    key: any;
+}
+
+// the number of removed instances a pool keeps; the instances removed above it are destroyed,
+// so the pool shrinks when the widget renders fewer templates, e.g. after the page size is decreased
+const DEFAULT_LIMIT = 100;
+
+class TemplatePool {
+
+    private readonly _limit: number;
+    private _free: IPooledInstance[] = [];
+
+    constructor(limit: number = DEFAULT_LIMIT) {
+        this._limit = limit;
+    }
+
+    public take(key: any): IVue | undefined {
+        if (!this._free.length) {
+            return undefined;
+        }
+
+        let index = this._free.length - 1;
+        if (key !== undefined) {
+            for (let i = 0; i < this._free.length; i++) {
+                if (this._free[i].key === key) {
+                    index = i;
+                    break;
+                }
+            }
+        }
+
+        return this._free.splice(index, 1)[0].vm;
+    }
+
+    public release(vm: IVue, key: any): void {
+        if (this._free.length >= this._limit) {
+            vm.$destroy();
+            return;
+        }
+
+        this._free.push({ vm, key });
+    }
+
+    public clear(): void {
+        this._free.forEach((i) => i.vm.$destroy());
+        this._free = [];
+    }
+}
+
+export default TemplatePool;
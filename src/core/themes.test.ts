@@ -0,0 +1,114 @@
+import Vue from "vue";
+import { DxComponent, IWidgetComponent } from "./component";
+import { currentTheme, switchTheme } from "./themes";
+
+import themes from "devextreme/ui/themes";
+
+const Widget = {
+    option: jest.fn(),
+    dispose: jest.fn(),
+    on: jest.fn(),
+    off: jest.fn(),
+    beginUpdate: jest.fn(),
+    endUpdate: jest.fn(),
+    repaint: jest.fn()
+};
+
+const WidgetClass = jest.fn(() => Widget);
+
+const TestComponent = Vue.extend({
+    extends: DxComponent,
+    beforeCreate() {
+        (this as any as IWidgetComponent).$_WidgetClass = WidgetClass;
+    }
+});
+
+const originalCurrent = themes.current;
+const originalReady = themes.ready;
+let readyCallbacks: Array<() => void>;
+let themeName: string;
+let vm: Vue | undefined;
+
+function loadTheme() {
+    readyCallbacks.forEach((callback) => callback());
+}
+
+beforeEach(() => {
+    jest.clearAllMocks();
+
+    readyCallbacks = [];
+    themeName = "generic.light";
+    (themes as any).current = jest.fn((name?: string) => {
+        if (name === undefined) {
+            return themeName;
+        }
+        if (name === "unknown") {
+            throw new Error("unknown theme");
+        }
+        themeName = name;
+        return undefined;
+    });
+    (themes as any).ready = jest.fn((callback: () => void) => readyCallbacks.push(callback));
+});
+
+afterEach(() => {
+    if (vm) {
+        vm.$destroy();
+        vm = undefined;
+    }
+    (themes as any).current = originalCurrent;
+    (themes as any).ready = originalReady;
+});
+
+describe("theme switching", () => {
+
+    it("refreshes widgets when the theme is loaded", (done) => {
+        vm = new TestComponent().$mount();
+
+        switchTheme("generic.dark").then((name: string) => {
+            expect(name).toBe("generic.dark");
+            expect(Widget.repaint).toHaveBeenCalled();
+            done();
+        });
+
+        expect(themes.current).toHaveBeenCalledWith("generic.dark");
+        expect(Widget.repaint).not.toHaveBeenCalled();
+        loadTheme();
+    });
+
+    it("exposes the current theme reactively", (done) => {
+        vm = new Vue({
+            template: `<div>{{ theme }}</div>`,
+            computed: {
+                theme: () => currentTheme()
+            }
+        }).$mount();
+        expect(vm.$el.textContent).toBe(currentTheme());
+
+        switchTheme("material.blue.light").then(() => {
+            Vue.nextTick(() => {
+                expect(vm!.$el.textContent).toBe("material.blue.light");
+                done();
+            });
+        });
+        loadTheme();
+    });
+
+    it("resolves at once if the theme is already active", () => {
+        vm = new TestComponent().$mount();
+
+        return switchTheme("generic.light").then((name: string) => {
+            expect(name).toBe("generic.light");
+            expect(themes.ready).not.toHaveBeenCalled();
+            expect(Widget.repaint).not.toHaveBeenCalled();
+        });
+    });
+
+    it("rejects an unknown theme", (done) => {
+        switchTheme("unknown").catch((error: Error) => {
+            expect(error.message).toBe("unknown theme");
+            expect(themes.ready).not.toHaveBeenCalled();
+            done();
+        });
+    });
+});
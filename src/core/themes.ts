@@ -0,0 +1,62 @@
+import * as VueType from "vue";
+
+import themes from "devextreme/ui/themes";
+import { refreshTheme } from "devextreme/viz/themes";
+
+import { repaintWidgets } from "./component";
+
+const Vue = VueType.default || VueType;
+
+interface IThemeState {
+    current: string | undefined;
+}
+
+// reactive, so that templates and watchers that read the current theme are updated when it is switched
+const state: IThemeState = new Vue({
+    data: {
+        current: undefined
+    }
+}) as any as IThemeState;
+
+function currentTheme(): string {
+    return state.current || themes.current();
+}
+
+// the promise is resolved when the theme's stylesheet is loaded and created widgets are rendered with it,
+// or at once if the theme is already active; it is rejected if DevExtreme can't set the theme
+function switchTheme(themeName: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const previousTheme = themes.current();
+        try {
+            themes.current(themeName);
+        } catch (error) {
+            reject(error);
+            return;
+        }
+
+        const theme = themes.current();
+        if (theme === previousTheme) {
+            state.current = theme;
+            resolve(theme);
+            return;
+        }
+
+        themes.ready(() => {
+            state.current = themes.current();
+
+            refreshTheme();
+            repaintWidgets();
+
+            resolve(state.current);
+        });
+
+        // DevExtreme waits for a stylesheet to load only if a ready callback is registered when the theme is set,
+        // so the theme is set again once the callback is registered after the theme is known to be valid
+        themes.current(theme);
+    });
+}
+
+export {
+    currentTheme,
+    switchTheme
+};
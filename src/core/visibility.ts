@@ -0,0 +1,21 @@
+function observeVisibility(element: Element, callback: () => void): () => void {
+    const Observer = typeof window !== "undefined" && (window as any).IntersectionObserver;
+    if (!Observer) {
+        callback();
+        return () => undefined;
+    }
+
+    const observer = new Observer((entries: Array<{ isIntersecting: boolean }>) => {
+        if (entries.some((e) => e.isIntersecting)) {
+            observer.disconnect();
+            callback();
+        }
+    });
+    observer.observe(element);
+
+    return () => observer.disconnect();
+}
+
+export {
+    observeVisibility
+};
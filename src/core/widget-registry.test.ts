@@ -0,0 +1,108 @@
+import Vue from "vue";
+import { DxComponent, IWidgetComponent } from "./component";
+import { findWidget, getWidgets } from "./widget-registry";
+
+import Button from "devextreme/ui/button";
+
+function RegisteredWidget() {
+    return undefined;
+}
+RegisteredWidget.prototype = {
+    NAME: "dxRegisteredWidget",
+    option: jest.fn(),
+    dispose: jest.fn(),
+    on: jest.fn(),
+    off: jest.fn(),
+    beginUpdate: jest.fn(),
+    endUpdate: jest.fn()
+};
+RegisteredWidget.prototype.constructor = RegisteredWidget;
+
+const RegisteredComponent = Vue.extend({
+    extends: DxComponent,
+    beforeCreate() {
+        (this as any as IWidgetComponent).$_WidgetClass = RegisteredWidget;
+    }
+});
+
+let vm: Vue;
+
+function mount() {
+    return vm = new Vue({
+        template:
+            `<div>` +
+            `  <registered-component id="registered-id" ref="registered"/>` +
+            `  <registered-component v-if="hasSecond" ref="second"/>` +
+            `</div>`,
+        components: {
+            RegisteredComponent
+        },
+        data: {
+            hasSecond: true
+        }
+    }).$mount();
+}
+
+afterEach(() => {
+    vm.$destroy();
+});
+
+describe("widget registry", () => {
+
+    it("finds a widget by id", () => {
+        mount();
+        const component: any = vm.$refs.registered;
+
+        const widget = findWidget({ id: "registered-id" })!;
+
+        expect(widget.widgetName).toBe("dxRegisteredWidget");
+        expect(widget.instance).toBe(component.$_instance);
+        expect(widget.instance).toBeInstanceOf(RegisteredWidget);
+        expect(widget.element).toBe(component.$el);
+        expect(widget.config).toBe(component.$_config);
+        expect(widget.component).toBe(component);
+        expect(widget.parent).toBe(vm);
+        expect(widget.ref).toBe("registered");
+    });
+
+    it("takes the name of a DevExtreme widget", () => {
+        vm = new (Vue.extend({
+            extends: DxComponent,
+            beforeCreate() {
+                (this as any as IWidgetComponent).$_WidgetClass = Button;
+            }
+        }))().$mount();
+
+        expect(getWidgets({ widgetName: "dxButton" })).toHaveLength(1);
+    });
+
+    it("finds widgets by ref and name", () => {
+        mount();
+
+        const widgets = getWidgets({ ref: "second", widgetName: "dxRegisteredWidget" });
+
+        expect(widgets).toHaveLength(1);
+        expect(widgets[0].component).toBe(vm.$refs.second);
+    });
+
+    it("removes a destroyed component's widget", (done) => {
+        mount();
+        const component = vm.$refs.second;
+        expect(getWidgets().some((w) => w.component === component)).toBe(true);
+
+        vm.$data.hasSecond = false;
+        Vue.nextTick(() => {
+            expect(getWidgets().some((w) => w.component === component)).toBe(false);
+            expect(findWidget({ id: "registered-id" })).toBeDefined();
+            done();
+        });
+    });
+
+    it("removes widgets of a destroyed tree", () => {
+        mount();
+
+        vm.$destroy();
+
+        expect(getWidgets()).toHaveLength(0);
+    });
+});
@@ -0,0 +1,82 @@
+import IVue from "vue";
+
+import Configuration from "./configuration";
+
+interface IRegisteredComponent extends IVue {
+    $_instance: any;
+    $_config: Configuration;
+}
+
+interface IWidgetInfo {
+    // the name the widget is registered with in DevExtreme, e.g. "dxDataGrid"
+    widgetName: string;
+    instance: any;
+    element: Element;
+    config: Configuration;
+    component: IVue;
+    parent: IVue | undefined;
+    // the name the component is registered with in its context's '$refs'
+    ref: string | undefined;
+}
+
+interface IWidgetQuery {
+    id?: string;
+    ref?: string;
+    widgetName?: string;
+}
+
+// widgets of components in the order the widgets are created
+const widgets: IWidgetInfo[] = [];
+
+function registerWidget(component: IRegisteredComponent, element: Element): void {
+    unregisterWidget(component);
+    widgets.push(createWidgetInfo(component, element));
+}
+
+function unregisterWidget(component: IRegisteredComponent): void {
+    for (let i = 0; i < widgets.length; i++) {
+        if (widgets[i].component === component) {
+            widgets.splice(i, 1);
+            return;
+        }
+    }
+}
+
+// DevExtreme components keep the name they are registered with in the 'NAME' field
+function createWidgetInfo(component: IRegisteredComponent, element: Element): IWidgetInfo {
+    const instance = component.$_instance;
+    const vnodeData = component.$vnode && component.$vnode.data;
+    return {
+        widgetName: instance.NAME,
+        instance,
+        element,
+        config: component.$_config,
+        component,
+        parent: component.$parent,
+        ref: vnodeData && typeof vnodeData.ref === "string" ? vnodeData.ref : undefined
+    };
+}
+
+function isMatch(info: IWidgetInfo, query: IWidgetQuery): boolean {
+    return (query.id === undefined || info.element.id === query.id)
+        && (query.ref === undefined || info.ref === query.ref)
+        && (query.widgetName === undefined || info.widgetName === query.widgetName);
+}
+
+function getWidgets(query?: IWidgetQuery): IWidgetInfo[] {
+    return widgets.filter((info: IWidgetInfo) => !query || isMatch(info, query));
+}
+
+function findWidget(query: IWidgetQuery): IWidgetInfo | undefined {
+    return getWidgets(query)[0];
+}
+
+export {
+    findWidget,
+    getWidgets,
+    IRegisteredComponent,
+    IWidgetInfo,
+    IWidgetQuery,
+    registerWidget,
+    unregisterWidget
+};
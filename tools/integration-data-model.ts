@@ -4,6 +4,7 @@ export interface IModel {
 }
 
 export interface IWidget {
+  bindableOptions?: string[];
   complexOptions: IComplexProp[];
   exportPath: string;
   isEditor: boolean;
@@ -11,9 +11,12 @@ import { BASE_COMPONENT } from "./BASE_COMPONENT_PATH";
 
 interface COMPONENT extends VueConstructor {
   readonly instance?: WIDGET;
+  whenReady(): Promise<WIDGET>;
+  batch(action: () => void): void;
 }
 const COMPONENT: COMPONENT = Vue.extend({
   extends: BASE_COMPONENT,
+  name: "COMPONENT",
   computed: {
     instance(): WIDGET {
       return (this as any).$_instance;
@@ -56,15 +59,21 @@ it("generates component with model", () => {
     const EXPECTED = `
 import * as VueType from "vue";
 const Vue = VueType.default || VueType;
-import WIDGET from "devextreme/DX/WIDGET/PATH";
+import WIDGET, { IOptions } from "devextreme/DX/WIDGET/PATH";
 import { VueConstructor } from "vue";
 import { BASE_COMPONENT } from "./BASE_COMPONENT_PATH";
 
 interface COMPONENT extends VueConstructor {
   readonly instance?: WIDGET;
+  whenReady(): Promise<WIDGET>;
+  batch(action: () => void): void;
+}
+interface ICOMPONENTBindingEvents {
+  "update:value": IOptions["value"];
 }
 const COMPONENT: COMPONENT = Vue.extend({
   extends: BASE_COMPONENT,
+  name: "COMPONENT",
   model: { prop: "value", event: "update:value" },
   computed: {
     instance(): WIDGET {
@@ -78,7 +87,69 @@ const COMPONENT: COMPONENT = Vue.extend({
 
 export default COMPONENT;
 export {
-  COMPONENT
+  COMPONENT,
+  ICOMPONENTBindingEvents
+};
+`.trimLeft();
+    //#endregion
+
+    expect(
+        generate({
+            name: "COMPONENT",
+            widgetComponent: {
+              name: "WIDGET",
+              path: "DX/WIDGET/PATH"
+            },
+            baseComponent: {
+                name: "BASE_COMPONENT",
+                path: "./BASE_COMPONENT_PATH"
+            },
+            configComponent: {
+                name: "CONFIG_COMPONENT",
+                path: "./CONFIG_COMPONENT_PATH"
+            },
+            bindableOptions: ["value"],
+            expectedChildren: undefined
+        })
+    ).toBe(EXPECTED);
+});
+
+it("generates component with model bound to first bindable option and events for all of them", () => {
+    //#region EXPECTED
+    const EXPECTED = `
+import * as VueType from "vue";
+const Vue = VueType.default || VueType;
+import WIDGET, { IOptions } from "devextreme/DX/WIDGET/PATH";
+import { VueConstructor } from "vue";
+import { BASE_COMPONENT } from "./BASE_COMPONENT_PATH";
+
+interface COMPONENT extends VueConstructor {
+  readonly instance?: WIDGET;
+  whenReady(): Promise<WIDGET>;
+  batch(action: () => void): void;
+}
+interface ICOMPONENTBindingEvents {
+  "update:visible": IOptions["visible"];
+  "update:position": IOptions["position"];
+}
+const COMPONENT: COMPONENT = Vue.extend({
+  extends: BASE_COMPONENT,
+  name: "COMPONENT",
+  model: { prop: "visible", event: "update:visible" },
+  computed: {
+    instance(): WIDGET {
+      return (this as any).$_instance;
+    }
+  },
+  beforeCreate() {
+    (this as any).$_WidgetClass = WIDGET;
+  }
+});
+
+export default COMPONENT;
+export {
+  COMPONENT,
+  ICOMPONENTBindingEvents
 };
 `.trimLeft();
     //#endregion
@@ -98,7 +169,7 @@ export {
                 name: "CONFIG_COMPONENT",
                 path: "./CONFIG_COMPONENT_PATH"
             },
-            hasModel: true,
+            bindableOptions: ["visible", "position"],
             expectedChildren: undefined
         })
     ).toBe(EXPECTED);
@@ -119,9 +190,12 @@ type AccessibleOptions = Pick<IOptions,
 
 interface COMPONENT extends VueConstructor, AccessibleOptions {
   readonly instance?: WIDGET;
+  whenReady(): Promise<WIDGET>;
+  batch(action: () => void): void;
 }
 const COMPONENT: COMPONENT = Vue.extend({
   extends: BASE_COMPONENT,
+  name: "COMPONENT",
   props: {
     PROP: {}
   },
@@ -163,6 +237,77 @@ export {
     ).toBe(EXPECTED);
 });
 
+it("generates deep watch info", () => {
+    //#region EXPECTED
+    const EXPECTED = `
+import * as VueType from "vue";
+const Vue = VueType.default || VueType;
+import WIDGET, { IOptions } from "devextreme/DX/WIDGET/PATH";
+import { VueConstructor } from "vue";
+import { BASE_COMPONENT } from "./BASE_COMPONENT_PATH";
+
+type AccessibleOptions = Pick<IOptions,
+  "ARRAY_PROP" |
+  "COLLECTION_PROP" |
+  "PROP"
+>;
+
+interface COMPONENT extends VueConstructor, AccessibleOptions {
+  readonly instance?: WIDGET;
+  whenReady(): Promise<WIDGET>;
+  batch(action: () => void): void;
+}
+const COMPONENT: COMPONENT = Vue.extend({
+  extends: BASE_COMPONENT,
+  name: "COMPONENT",
+  props: {
+    ARRAY_PROP: Array,
+    COLLECTION_PROP: [Array, Object, String],
+    PROP: String
+  },
+  computed: {
+    instance(): WIDGET {
+      return (this as any).$_instance;
+    }
+  },
+  beforeCreate() {
+    (this as any).$_WidgetClass = WIDGET;
+    (this as any).$_deepWatchOptions = ["ARRAY_PROP", "COLLECTION_PROP"];
+  }
+});
+
+export default COMPONENT;
+export {
+  COMPONENT
+};
+`.trimLeft();
+    //#endregion
+
+    expect(
+        generate({
+            name: "COMPONENT",
+            widgetComponent: {
+              name: "WIDGET",
+              path: "DX/WIDGET/PATH"
+            },
+            baseComponent: {
+                name: "BASE_COMPONENT",
+                path: "./BASE_COMPONENT_PATH"
+            },
+            configComponent: {
+                name: "CONFIG_COMPONENT",
+                path: "./CONFIG_COMPONENT_PATH"
+            },
+            props: [
+              { name: "PROP", types: ["String"] },
+              { name: "COLLECTION_PROP", types: ["Array", "Object", "String"] },
+              { name: "ARRAY_PROP", types: ["Array"] }
+            ],
+            expectedChildren: undefined
+        })
+    ).toBe(EXPECTED);
+});
+
 it("generates nested option component", () => {
     //#region EXPECTED
     const EXPECTED = `
@@ -175,9 +320,12 @@ import { CONFIG_COMPONENT } from "./CONFIG_COMPONENT_PATH";
 
 interface COMPONENT extends VueConstructor {
   readonly instance?: WIDGET;
+  whenReady(): Promise<WIDGET>;
+  batch(action: () => void): void;
 }
 const COMPONENT: COMPONENT = Vue.extend({
   extends: BASE_COMPONENT,
+  name: "COMPONENT",
   computed: {
     instance(): WIDGET {
       return (this as any).$_instance;
@@ -247,9 +395,12 @@ import { CONFIG_COMPONENT } from "./CONFIG_COMPONENT_PATH";
 
 interface COMPONENT extends VueConstructor {
   readonly instance?: WIDGET;
+  whenReady(): Promise<WIDGET>;
+  batch(action: () => void): void;
 }
 const COMPONENT: COMPONENT = Vue.extend({
   extends: BASE_COMPONENT,
+  name: "COMPONENT",
   computed: {
     instance(): WIDGET {
       return (this as any).$_instance;
@@ -320,9 +471,12 @@ import { CONFIG_COMPONENT } from "./CONFIG_COMPONENT_PATH";
 
 interface COMPONENT extends VueConstructor {
   readonly instance?: WIDGET;
+  whenReady(): Promise<WIDGET>;
+  batch(action: () => void): void;
 }
 const COMPONENT: COMPONENT = Vue.extend({
   extends: BASE_COMPONENT,
+  name: "COMPONENT",
   computed: {
     instance(): WIDGET {
       return (this as any).$_instance;
@@ -394,6 +548,86 @@ export {
     ).toBe(EXPECTED);
 });
 
+it("generates templates info", () => {
+    //#region EXPECTED
+    const EXPECTED = `
+import * as VueType from "vue";
+const Vue = VueType.default || VueType;
+import WIDGET from "devextreme/DX/WIDGET/PATH";
+import { VueConstructor } from "vue";
+import { BASE_COMPONENT } from "./BASE_COMPONENT_PATH";
+import { CONFIG_COMPONENT } from "./CONFIG_COMPONENT_PATH";
+
+interface COMPONENT extends VueConstructor {
+  readonly instance?: WIDGET;
+  whenReady(): Promise<WIDGET>;
+  batch(action: () => void): void;
+}
+const COMPONENT: COMPONENT = Vue.extend({
+  extends: BASE_COMPONENT,
+  name: "COMPONENT",
+  computed: {
+    instance(): WIDGET {
+      return (this as any).$_instance;
+    }
+  },
+  beforeCreate() {
+    (this as any).$_WidgetClass = WIDGET;
+    (this as any).$_templates = ["TEMPLATE_1"];
+  }
+});
+
+const NESTED_COMPONENT: any = Vue.extend({
+  extends: CONFIG_COMPONENT,
+  props: {
+    PROP: {}
+  }
+});
+(NESTED_COMPONENT as any).$_optionName = "NESTED_OPTION_NAME";
+(NESTED_COMPONENT as any).$_isCollectionItem = true;
+(NESTED_COMPONENT as any).$_templates = ["TEMPLATE_2", "TEMPLATE_3"];
+
+export default COMPONENT;
+export {
+  COMPONENT,
+  NESTED_COMPONENT
+};
+`.trimLeft();
+        //#endregion
+
+    expect(
+        generate({
+            name: "COMPONENT",
+            widgetComponent: {
+              name: "WIDGET",
+              path: "DX/WIDGET/PATH"
+            },
+            baseComponent: {
+                name: "BASE_COMPONENT",
+                path: "./BASE_COMPONENT_PATH"
+            },
+            configComponent: {
+                name: "CONFIG_COMPONENT",
+                path: "./CONFIG_COMPONENT_PATH"
+            },
+            nestedComponents: [
+              {
+                name: "NESTED_COMPONENT",
+                optionName: "NESTED_OPTION_NAME",
+                props: [
+                  { name: "PROP" }
+                ],
+                isCollectionItem: true,
+                expectedChildren: undefined,
+                templates: ["TEMPLATE_2", "TEMPLATE_3"]
+              }
+            ],
+            expectedChildren: undefined,
+            templates: ["TEMPLATE_1"]
+        })
+    ).toBe(EXPECTED);
+});
+
 describe("props generation", () => {
 
     it("generates props in alphabetic order", () => {
@@ -508,9 +742,12 @@ import { CONFIG_COMPONENT } from "./CONFIG_COMPONENT_PATH";
 
 interface COMPONENT extends VueConstructor {
   readonly instance?: WIDGET;
+  whenReady(): Promise<WIDGET>;
+  batch(action: () => void): void;
 }
 const COMPONENT: COMPONENT = Vue.extend({
   extends: BASE_COMPONENT,
+  name: "COMPONENT",
   computed: {
     instance(): WIDGET {
       return (this as any).$_instance;
@@ -586,9 +823,12 @@ import { CONFIG_COMPONENT } from "./CONFIG_COMPONENT_PATH";
 
 interface COMPONENT extends VueConstructor {
   readonly instance?: WIDGET;
+  whenReady(): Promise<WIDGET>;
+  batch(action: () => void): void;
 }
 const COMPONENT: COMPONENT = Vue.extend({
   extends: BASE_COMPONENT,
+  name: "COMPONENT",
   computed: {
     instance(): WIDGET {
       return (this as any).$_instance;
@@ -17,9 +17,10 @@ interface IComponent {
     baseComponent: IImport;
     configComponent: IImport;
     props?: IProp[];
-    hasModel?: boolean;
+    bindableOptions?: string[];
     nestedComponents?: INestedComponent[];
     expectedChildren: Record<string, IExpectedChild>;
+    templates?: string[];
 }
 
 interface INestedComponent {
@@ -29,6 +30,7 @@ interface INestedComponent {
     isCollectionItem: boolean;
     expectedChildren: Record<string, IExpectedChild>;
     predefinedProps?: Record<string, any>;
+    templates?: string[];
 }
 
 interface INestedComponentModel {
@@ -44,6 +46,7 @@ interface INestedComponentModel {
         name: string;
         isCollectionItem: boolean;
     }>;
+    templates?: string;
 }
 
 interface IExpectedChildModel {
@@ -84,6 +87,13 @@ function generate(component: IComponent): string {
         component.baseComponent
     ];
 
+    const bindingEvents = component.bindableOptions && component.bindableOptions.length
+        ? `I${component.name}BindingEvents`
+        : undefined;
+    if (bindingEvents) {
+        namedExports.push(bindingEvents);
+    }
+
     if (nestedComponents && nestedComponents.length) {
         namedExports.push(...nestedComponents.map((c) => c.name));
         namedImports.push(component.configComponent);
@@ -103,10 +113,15 @@ function generate(component: IComponent): string {
             ? renderProps(component.props)
             : undefined,
 
+        // v-model is bound to the first bindable option, the others are bound with the 'sync' modifier
+        model: bindingEvents && component.bindableOptions[0],
+        bindingEvents,
         nestedComponents,
         defaultExport: component.name,
         namedExports,
         expectedChildren: formatExpectedChildren(component.expectedChildren),
+        templates: formatNames(component.templates),
+        deepWatchOptions: formatNames(getCollectionProps(component.props))
     };
 
     return renderComponent(componentModel);
@@ -130,7 +145,8 @@ function createNestedComponentModel(component: INestedComponent): INestedCompone
             : undefined,
         isCollectionItem: component.isCollectionItem,
         expectedChildren: formatExpectedChildren(component.expectedChildren),
-        predefinedProps
+        predefinedProps,
+        templates: formatNames(component.templates)
     };
 }
 
@@ -144,6 +160,21 @@ function formatExpectedChildren(dict: Record<string, IExpectedChild>): IExpected
     }));
 }
 
+function formatNames(names: string[]): string {
+    if (!names || names.length === 0) { return undefined; }
+
+    return names.map((name) => `"${name}"`).join(", ");
+}
+
+function getCollectionProps(props: IProp[]): string[] {
+    if (!props) { return undefined; }
+
+    return props
+        .filter((p) => p.types && p.types.indexOf("Array") !== -1)
+        .map((p) => p.name)
+        .sort(compareStrings);
+}
+
 // tslint:disable:max-line-length
 
 const renderComponent: (model: {
@@ -153,15 +184,19 @@ const renderComponent: (model: {
     baseComponent: string;
     configComponent: string;
     renderedProps?: string;
-    hasModel?: boolean;
+    model?: string;
+    bindingEvents?: string;
+    bindableOptions?: string[];
     nestedComponents?: INestedComponentModel[];
     expectedChildren: IExpectedChildModel[];
+    templates?: string;
+    deepWatchOptions?: string;
     defaultExport: string;
     namedExports: string[];
 }) => string = createTempate(
 `import * as VueType from "vue";\n` +
 `const Vue = VueType.default || VueType;\n` +
-`import <#= it.widgetImport.name #><#? it.props #>, { IOptions }<#?#> from "devextreme/<#= it.widgetImport.path #>";\n` +
+`import <#= it.widgetImport.name #><#? it.props || it.bindingEvents #>, { IOptions }<#?#> from "devextreme/<#= it.widgetImport.path #>";\n` +
 
 `<#~ it.namedImports :namedImport #>` +
 `import { <#= namedImport.name #> } from "<#= namedImport.path #>";\n` +
@@ -177,11 +212,22 @@ const renderComponent: (model: {
 `<#?#>` +
 
 `interface <#= it.component #> extends VueConstructor<#? it.props #>, AccessibleOptions<#?#> {` +
-    L1 + `readonly instance?: <#= it.widgetImport.name #>;` + `\n` +
+    L1 + `readonly instance?: <#= it.widgetImport.name #>;` +
+    L1 + `whenReady(): Promise<<#= it.widgetImport.name #>>;` +
+    L1 + `batch(action: () => void): void;` + `\n` +
 `}` + `\n` +
 
+`<#? it.bindingEvents #>` +
+    `interface <#= it.bindingEvents #> {` +
+    `<#~ it.bindableOptions : option #>` +
+        L1 + `"update:<#= option #>": IOptions["<#= option #>"];` +
+    `<#~#>` + `\n` +
+    `}` + `\n` +
+`<#?#>` +
+
 `const <#= it.component #>: <#= it.component #> = Vue.extend({` +
 L1 + `extends: <#= it.baseComponent #>,` +
+L1 + `name: "<#= it.component #>",` +
 
 `<#? it.props #>` +
     L1 + `props: {\n` +
@@ -189,8 +235,8 @@ L1 + `extends: <#= it.baseComponent #>,` +
     L1 + `},` +
 `<#?#>` +
 
-`<#? it.hasModel #>` +
-  L1 + `model: { prop: "value", event: "update:value" },` +
+`<#? it.model #>` +
+  L1 + `model: { prop: "<#= it.model #>", event: "update:<#= it.model #>" },` +
 `<#?#>` +
 
 L1 + `computed: {` +
@@ -210,6 +256,14 @@ L1 + `beforeCreate() {` +
     L2 + `};` +
     `<#?#>` +
 
+    `<#? it.templates #>` +
+    L2 + `(this as any).$_templates = [<#= it.templates #>];` +
+    `<#?#>` +
+
+    `<#? it.deepWatchOptions #>` +
+    L2 + `(this as any).$_deepWatchOptions = [<#= it.deepWatchOptions #>];` +
+    `<#?#>` +
+
 L1 + `}` +
 
 L0 + `});\n` +
@@ -229,6 +283,10 @@ L0 + `});\n` +
             `(<#= nested.name #> as any).$_isCollectionItem = true;\n` +
         `<#?#>` +
 
+        `<#? nested.templates #>` +
+            `(<#= nested.name #> as any).$_templates = [<#= nested.templates #>];\n` +
+        `<#?#>` +
+
         `<#? nested.predefinedProps #>` +
             `(<#= nested.name #> as any).$_predefinedProps = {` +
             `<#~ nested.predefinedProps : prop #>` +
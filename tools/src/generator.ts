@@ -34,6 +34,7 @@ function generate(
   baseComponentPath: string,
   configComponentPath: string,
   extensionComponentPath: string,
+  pluginPath: string,
   out: {
     componentsDir: string,
     oldComponentsDir: string,
@@ -56,7 +57,8 @@ function generate(
     writeFile(widgetFilePath, generateComponent(widgetFile.component), { encoding: "utf8" });
     modulePaths.push({
       name: widgetFile.component.name,
-      path: "./" + removeExtension(getRelativePath(indexFileDir, widgetFilePath)).replace(pathSeparator, "/")
+      path: "./" + removeExtension(getRelativePath(indexFileDir, widgetFilePath)).replace(pathSeparator, "/"),
+      nestedComponents: (widgetFile.component.nestedComponents || []).map((c) => c.name)
     });
 
     writeFile(
@@ -69,7 +71,7 @@ function generate(
     );
   });
 
-  writeFile(out.indexFileName, generateIndex(modulePaths), { encoding: "utf8" });
+  writeFile(out.indexFileName, generateIndex(modulePaths, pluginPath), { encoding: "utf8" });
 }
 
 function mapWidget(
@@ -106,11 +108,12 @@ function mapWidget(
         path: configComponentPath
       },
       props: raw.options.map((o) => mapProp(o, customTypeHash)),
-      hasModel: !!raw.isEditor,
+      bindableOptions: raw.bindableOptions || (raw.isEditor ? ["value"] : undefined),
       nestedComponents: raw.complexOptions
         ? raw.complexOptions.map((o) => mapNestedComponent(o, customTypeHash))
         : undefined,
-        expectedChildren: mapExpectedChildren(raw.nesteds)
+        expectedChildren: mapExpectedChildren(raw.nesteds),
+      templates: raw.templates
     }
   };
 }
@@ -125,7 +128,8 @@ function mapNestedComponent(
     props: complexOption.props.map((o) => mapProp(o, customTypes)),
     isCollectionItem: complexOption.isCollectionItem,
     predefinedProps: complexOption.predefinedProps,
-    expectedChildren: mapExpectedChildren(complexOption.nesteds)
+    expectedChildren: mapExpectedChildren(complexOption.nesteds),
+    templates: complexOption.templates
   };
 }
 
@@ -13,3 +13,58 @@ const EXPECTED_GENERATES = `
 export { widget } from "./path";
 export { anotherWidget } from "./another/path";
 `.trimLeft();
+
+it("generates plugin", () => {
+    expect(
+        generate([
+            { name: "widget", path: "./path" },
+            { name: "anotherWidget", path: "./another/path" },
+        ], "./core/plugin")
+    ).toBe(EXPECTED_GENERATES_PLUGIN);
+});
+//#region EXPECTED_GENERATES_PLUGIN
+const EXPECTED_GENERATES_PLUGIN = `
+import { createPlugin } from "./core/plugin";
+import { widget } from "./path";
+import { anotherWidget } from "./another/path";
+
+export default createPlugin({
+  widget,
+  anotherWidget
+});
+
+export {
+  widget,
+  anotherWidget
+};
+`.trimLeft();
+//#endregion
+
+it("generates plugin with nested components", () => {
+    expect(
+        generate([
+            { name: "DxWidget", path: "./path", nestedComponents: ["DxItem", "DxColumn"] },
+            { name: "DxAnotherWidget", path: "./another/path", nestedComponents: ["DxItem"] },
+        ], "./core/plugin")
+    ).toBe(EXPECTED_GENERATES_PLUGIN_WITH_NESTED);
+});
+//#region EXPECTED_GENERATES_PLUGIN_WITH_NESTED
+const EXPECTED_GENERATES_PLUGIN_WITH_NESTED = `
+import { createPlugin } from "./core/plugin";
+import { DxWidget, DxItem as DxWidgetItem, DxColumn } from "./path";
+import { DxAnotherWidget, DxItem as DxAnotherWidgetItem } from "./another/path";
+
+export default createPlugin({
+  DxWidget,
+  DxWidgetItem,
+  DxColumn,
+  DxAnotherWidget,
+  DxAnotherWidgetItem
+});
+
+export {
+  DxWidget,
+  DxAnotherWidget
+};
+`.trimLeft();
+//#endregion
@@ -3,10 +3,51 @@ import { createTempate } from "./template";
 interface IReExport {
   name: string;
   path: string;
+  nestedComponents?: string[];
 }
 
-function generate(paths: IReExport[]): string {
-  return render(paths);
+interface IPluginImport {
+  path: string;
+  names: string[];
+}
+
+interface IPluginModel {
+  pluginPath: string;
+  imports: IPluginImport[];
+  components: string[];
+  paths: IReExport[];
+}
+
+function generate(paths: IReExport[], pluginPath?: string): string {
+  return pluginPath ? renderWithPlugin(createPluginModel(paths, pluginPath)) : render(paths);
+}
+
+// a nested component exported by several widgets, e.g. DxColumn, is registered under a name prefixed
+// with its widget's name, e.g. DxDataGridColumn
+function createPluginModel(paths: IReExport[], pluginPath: string): IPluginModel {
+  const nestedCounts: Record<string, number> = {};
+  paths.forEach((p) => (p.nestedComponents || []).forEach((n) => nestedCounts[n] = (nestedCounts[n] || 0) + 1));
+
+  const components: string[] = [];
+  const imports = paths.map((p): IPluginImport => {
+    const names = [p.name];
+    components.push(p.name);
+    (p.nestedComponents || []).forEach((n) => {
+      if (nestedCounts[n] === 1) {
+        names.push(n);
+        components.push(n);
+        return;
+      }
+
+      const alias = p.name + n.replace(/^Dx/, "");
+      names.push(`${n} as ${alias}`);
+      components.push(alias);
+    });
+
+    return { path: p.path, names };
+  });
+
+  return { pluginPath, imports, components, paths };
 }
 
 const render: (model: IReExport[]) => string = createTempate(`
@@ -14,6 +55,21 @@ const render: (model: IReExport[]) => string = createTempate(`
 <#~#>
 `.trim());
 
+const renderWithPlugin: (model: IPluginModel) => string = createTempate(`
+import { createPlugin } from "<#= it.pluginPath #>";
+<#~ it.imports :imp #>import { <#= imp.names.join(", ") #> } from "<#= imp.path #>";
+<#~#>
+export default createPlugin({
+<#~ it.components :component #>  <#= component #>,
+<#~#>\b\b
+});
+
+export {
+<#~ it.paths :reExport #>  <#= reExport.name #>,
+<#~#>\b\b
+};
+`.trimLeft());
+
 export default generate;
 export {
   IReExport